@@ -0,0 +1,177 @@
+import { bootstrap } from "../src/bootstrap";
+import { CompiledModule, IDependencyManager } from "../src/api";
+import { Definition } from "../src/definition";
+
+const Rounds = 10;
+const RoundTime = 50;
+
+interface Benchmark {
+    name: string;
+    setup(): Promise<() => unknown>;
+}
+
+class Service {
+    public readonly deps: unknown[];
+
+    public constructor(...deps: unknown[]) {
+        this.deps = deps;
+    }
+}
+
+function layered(dm: IDependencyManager, width: number, depth: number, scope: "singleton" | "transient"): void {
+    dm.bind("bench::config").toValue({name: "bench"});
+    for (let level = 0; level < depth; ++level) {
+        for (let index = 0; index < width; ++index) {
+            const binding = dm.bind(`bench::service.${level}.${index}`).toClass(Service);
+            if (scope === "transient") {
+                binding.inTransientScope();
+            }
+            if (level > 0) {
+                binding.withArguments([
+                    `bench::service.${level - 1}.${index}`,
+                    `bench::service.${level - 1}.${(index + 1) % width}`,
+                    Definition.makeValue(level),
+                ]);
+            } else {
+                binding.withArguments(["bench::config"]);
+            }
+        }
+    }
+    dm.bind("bench::root")
+        .toClass(Service)
+        .inTransientScope()
+        .withArguments(Array.from({length: width}, (v, index) => `bench::service.${depth - 1}.${index}`));
+}
+
+function chain(dm: IDependencyManager, length: number): void {
+    dm.bind("bench::link.0").toClass(Service).inTransientScope();
+    for (let index = 1; index < length; ++index) {
+        dm.bind(`bench::link.${index}`).toClass(Service).inTransientScope().withArguments([`bench::link.${index - 1}`]);
+    }
+}
+
+function conditional(dm: IDependencyManager, width: number): void {
+    dm.bind("bench::logger").toClass(Service);
+    dm.bind("bench::logger").whenInjectedInto("bench::consumer.0").toClass(Service);
+    for (let index = 0; index < width; ++index) {
+        dm.bind(`bench::consumer.${index}`).toClass(Service).inTransientScope().withArguments(["bench::logger"]);
+    }
+    dm.bind("bench::root")
+        .toClass(Service)
+        .inTransientScope()
+        .withArguments(Array.from({length: width}, (v, index) => `bench::consumer.${index}`));
+}
+
+async function container(configure: (dm: IDependencyManager) => void): Promise<IDependencyManager> {
+    const dm = await bootstrap().get(IDependencyManager);
+    configure(dm);
+    return dm;
+}
+
+function load(source: string): CompiledModule {
+    const module = {exports: {}};
+    new Function("module", "exports", source)(module, module.exports);
+    return module.exports as CompiledModule;
+}
+
+const graph = (dm: IDependencyManager) => layered(dm, 20, 10, "singleton");
+
+const benchmarks: Benchmark[] = [
+    {
+        name: "cold start (interpreted)",
+        setup: async () => async () => (await container(graph)).get("bench::root"),
+    },
+    {
+        name: "cold start (compiled)",
+        setup: async () => {
+            const compiled = load((await container(graph)).compile());
+            return async () => {
+                const dm = await container(graph);
+                dm.useCompiled(compiled);
+                return dm.get("bench::root");
+            };
+        },
+    },
+    {
+        name: "warm get (interpreted)",
+        setup: async () => {
+            const dm = await container(graph);
+            return () => dm.get("bench::root");
+        },
+    },
+    {
+        name: "warm get (compiled)",
+        setup: async () => {
+            const dm = await container(graph);
+            dm.useCompiled(load(dm.compile()));
+            return () => dm.get("bench::root");
+        },
+    },
+    {
+        name: "create transient, 10x20 graph",
+        setup: async () => {
+            const dm = await container((target) => layered(target, 20, 10, "transient"));
+            return () => dm.create("bench::service.9.0");
+        },
+    },
+    {
+        name: "create transient, 200 chain",
+        setup: async () => {
+            const dm = await container((target) => chain(target, 200));
+            return () => dm.create("bench::link.199");
+        },
+    },
+    {
+        name: "createSync transient, 200 chain",
+        setup: async () => {
+            const dm = await container((target) => chain(target, 200));
+            return () => dm.createSync("bench::link.199");
+        },
+    },
+    {
+        name: "create with conditional bindings",
+        setup: async () => {
+            const dm = await container((target) => conditional(target, 50));
+            return () => dm.create("bench::root");
+        },
+    },
+];
+
+async function time(run: () => unknown, budget: number): Promise<[number, number]> {
+    const start = process.hrtime.bigint();
+    let elapsed = 0;
+    let iterations = 0;
+    while (elapsed < budget) {
+        await run();
+        elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+        ++iterations;
+    }
+    return [elapsed, iterations];
+}
+
+async function measure(benchmark: Benchmark): Promise<number> {
+    const run = await benchmark.setup();
+    await time(run, RoundTime);
+    let total = 0;
+    let count = 0;
+    for (let round = 0; round < Rounds; ++round) {
+        const [elapsed, iterations] = await time(run, RoundTime);
+        total += elapsed;
+        count += iterations;
+    }
+    return total / count;
+}
+
+function format(time: number): string {
+    return `${time.toFixed(3).padStart(10)} ms/op`;
+}
+
+(async () => {
+    const filter = process.argv[2];
+    for (const benchmark of benchmarks) {
+        if (filter && !benchmark.name.includes(filter)) {
+            continue;
+        }
+        console.log(`${benchmark.name.padEnd(36)} ${format(await measure(benchmark))}`);
+    }
+})();
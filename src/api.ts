@@ -5,10 +5,15 @@ import { Definition } from "./definition";
  
 export interface Context {
     stack: Dependency[];
-    shared: boolean;
+    scope?: string;
     parameters?: Record<string, unknown>;
 }
 
+export namespace Scope {
+    export const Singleton = "singleton";
+    export const Transient = "transient";
+}
+
 export type TypeProvider<T> = (type: Type<T>) => Promise<T>;
 export type TypeFactory<T, TArgs extends unknown[] = []> = (type: Type<T>, ...args: TArgs) => Promise<T>;
 
@@ -16,6 +21,14 @@ export type Reference<T = unknown, P extends T = T> = Typing.Reference<P>;
 export type Dependency<T = unknown, P extends T = T> = Reference<P> | Definition<P>;
 
 
+export interface BindingContext extends Context {
+    type: Type;
+    parent?: Definition.Type;
+    tags: Record<string, unknown>;
+}
+
+export type BindingCondition = (ctx: BindingContext) => boolean;
+
 export type ArrayDependencies<T extends ArrayLike<unknown>> = {
     readonly [index: number]: Dependency<Required<T[typeof index]>> | undefined;
     readonly length: number;
@@ -31,7 +44,32 @@ export interface IDependencyProvider {
     get<T, P extends T = T>(ctx: Context, dep: Definition.Value<P>): Promise<T>;
     get<T, P extends T = T>(ctx: Context, dep: Definition.Type<P>): Promise<T>;
     get<T, P extends T = T>(ctx: Context, dep: Definition.Reference<P>): Promise<T>;
+    get<T, P extends T = T>(ctx: Context, dep: Definition.Parameter<P>): Promise<T>;
+    get<T, P extends T = T>(ctx: Context, dep: Definition.Provider<P>): Promise<AsyncProvider<T>>;
+    get<T, P extends T = T>(ctx: Context, dep: Definition.Factory<P>): Promise<AsyncFactory<T, [Record<string, unknown>?]>>;
+    get<T, P extends T = T>(ctx: Context, dep: Definition.Lazy<P>): Promise<AsyncProvider<T>>;
+    get<T, P extends T = T>(ctx: Context, dep: Definition.Optional<P>): Promise<T | undefined>;
+    get<T, P extends T = T>(ctx: Context, dep: Definition.Multi<P>): Promise<Array<T>>;
+    get<T, P extends T = T>(ctx: Context, dep: Definition.Collection<P>): Promise<Array<T> | Record<string, T> | AsyncIterable<T>>;
+    get<T, P extends T = T>(ctx: Context, dep: Definition.Config<P>): Promise<T>;
     get<T, P extends T = T>(ctx: Context, dep: Type<P>): Promise<T>;
+    get<T, P extends T = T>(ctx: Context, dep: Dependency<P>): Promise<T>;
+
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Array<P>): Array<T>;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Record<P>): Record<string, T>;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Value<P>): T;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Type<P>): T;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Reference<P>): T;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Parameter<P>): T;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Provider<P>): AsyncProvider<T>;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Factory<P>): AsyncFactory<T, [Record<string, unknown>?]>;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Lazy<P>): AsyncProvider<T>;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Optional<P>): T | undefined;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Multi<P>): Array<T>;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Collection<P>): Array<T> | Record<string, T> | AsyncIterable<T>;
+    getSync<T, P extends T = T>(ctx: Context, dep: Definition.Config<P>): T;
+    getSync<T, P extends T = T>(ctx: Context, dep: Type<P>): T;
+    getSync<T, P extends T = T>(ctx: Context, dep: Dependency<P>): T;
 }
 export namespace IDependencyProvider {
     export const Type = Typing.type<IDependencyProvider>("@saggitarius/di::IDependencyProvider");
@@ -39,23 +77,37 @@ export namespace IDependencyProvider {
 
 export interface IDefinitionResolver {
     resolve<T>(ctx: Context, def: Type<T> | Definition<T>): Promise<Definition.Provision<T>>;
+    resolveSync?<T>(ctx: Context, def: Type<T> | Definition<T>): Definition.Provision<T>;
 }
 export namespace IDefinitionResolver {
-    export const Type = Typing.type<IDefinitionResolver>("@saggitarius/di::IDefinitionResolver");
+    export const Type = Typing.type<Required<IDefinitionResolver>>("@saggitarius/di::IDefinitionResolver");
 }
 
 export interface IObjectFactory {
     create<T>(ctx: Context, def: Definition.Type<T>): Promise<T>;
+    createSync?<T>(ctx: Context, def: Definition.Type<T>): T;
 }
 export namespace IObjectFactory {
-    export const Type = Typing.type<IObjectFactory>("@saggitarius/di::IObjectFactory");
+    export const Type = Typing.type<Required<IObjectFactory>>("@saggitarius/di::IObjectFactory");
 }
 
 export interface IObjectProvider {
     get<T>(ctx: Context, def: Definition.Type<T>): Promise<T>;
+    getSync?<T>(ctx: Context, def: Definition.Type<T>): T;
 }
 export namespace IObjectProvider {
-    export const Type = Typing.type<IObjectProvider>("@saggitarius/di::IObjectProvider");
+    export const Type = Typing.type<Required<IObjectProvider>>("@saggitarius/di::IObjectProvider");
+}
+
+export interface IScopeManager {
+    register(name: string, provider: IObjectProvider): void;
+    open(name: string): void;
+    close(name: string): Promise<void>;
+    get(name: string): IObjectProvider;
+    dispose(): Promise<void>;
+}
+export namespace IScopeManager {
+    export const Type = Typing.type<IScopeManager>("@saggitarius/di::IScopeManager");
 }
 
 type ClassExtension<T> = T extends new (...args: unknown[]) => unknown ? Typing.Class<T> : Typing.Constructor;
@@ -67,11 +119,28 @@ export interface IBinding<T = unknown> {
     toType<P extends T>(type: Reference<T, P>): IBinding<T>;
     toValue(val: T): IBinding<T>;
     toFactory(fn: (...args: unknown[]) => unknown): IBinding<T>;
+    toDefinition(def: Definition<T>): IBinding<T>;
+    when(condition: BindingCondition): IBinding<T>;
+    whenInjectedInto(consumer: Reference): IBinding<T>;
+    whenTagged(name: string, value: unknown): IBinding<T>;
+    named(name: string): IBinding<T>;
 }
 export namespace IBinding {
     export const Type = Typing.type<IBinding>("@saggitarius/di::IBinding");
 }
 
+export interface MultiBindingOptions {
+    priority?: number;
+    name?: string;
+}
+
+export interface IMultiBinding<T = unknown> {
+    add(dep: Dependency<T>, options?: MultiBindingOptions): IMultiBinding<T>;
+    addValue(value: T, options?: MultiBindingOptions): IMultiBinding<T>;
+    addFactory(fn: (...args: unknown[]) => T | Promise<T>, args?: Dependency[], options?: MultiBindingOptions): IMultiBinding<T>;
+    remove(dep: Dependency<T> | string): IMultiBinding<T>;
+}
+
 export interface IArrayBinding<T extends ArrayLike<unknown> = ArrayLike<unknown>> {
     withElement<K extends keyof T>(index: K, value: Dependency<T[K]>): IArrayBinding<T>;
     withElements(args: ArrayDependencies<T>): IArrayBinding<T>;
@@ -88,25 +157,237 @@ export interface IClassBinding<
     TInst extends unknown = InstanceType<T>,
 > {
     shared(shared: boolean): IClassBinding<T, TArgs, TInst>;
-    tag<V extends T[]>(tag: Reference<V>): IClassBinding<T, TArgs, TInst>;
+    inSingletonScope(): IClassBinding<T, TArgs, TInst>;
+    inTransientScope(): IClassBinding<T, TArgs, TInst>;
+    inScope(scope: string): IClassBinding<T, TArgs, TInst>;
+    onDispose(fn: (instance: TInst) => void | Promise<void>): IClassBinding<T, TArgs, TInst>;
+    onActivation(fn: (instance: TInst) => void | Promise<void>): IClassBinding<T, TArgs, TInst>;
+    withInitializer<K extends keyof TInst>(method: K): IClassBinding<T, TArgs, TInst>;
+    tag<V extends T[]>(tag: Reference<V>, options?: MultiBindingOptions): IClassBinding<T, TArgs, TInst>;
     withArgument<K extends keyof TArgs>(index: K, value: Dependency<TArgs[K]>): IClassBinding<T, TArgs, TInst>;
+    withOptionalArgument<K extends keyof TArgs>(index: K, value: Dependency<TArgs[K]>, defaultValue?: TArgs[K]): IClassBinding<T, TArgs, TInst>;
     withProperty<K extends keyof TInst>(key: K, value: Dependency<TInst[K]>): IClassBinding<T, TArgs, TInst>;
     withArguments(args: ArrayDependencies<TArgs>): IClassBinding<T, TArgs, TInst>;
     withProperties(props: RecordDependencies<TInst>): IClassBinding<T, TArgs, TInst>;
+    intercept(interceptor: Dependency<IInterceptor>): IClassBinding<T, TArgs, TInst>;
+}
+
+export enum ValidationIssueKind {
+    MissingBinding = "missing-binding",
+    MissingFactory = "missing-factory",
+    CyclicDependency = "cyclic-dependency",
+    NotMultiBinding = "not-multi-binding",
+}
+
+export interface ValidationIssue {
+    kind: ValidationIssueKind;
+    dependency: Dependency;
+    path: Dependency[];
+    message: string;
+}
+
+export interface ValidationReport {
+    valid: boolean;
+    issues: ValidationIssue[];
+}
+
+export interface IContainerValidator {
+    validate(): Promise<ValidationReport>;
+}
+export namespace IContainerValidator {
+    export const Type = Typing.type<IContainerValidator>("@saggitarius/di::IContainerValidator");
+}
+
+export enum GraphEdgeKind {
+    Argument = "argument",
+    Property = "property",
+    Element = "element",
+    Alias = "alias",
+    Tag = "tag",
+    Target = "target",
+    Decorated = "decorated",
+    Candidate = "candidate",
+}
+
+export interface GraphNode {
+    id: string;
+    kind: Definition.Kind | "unbound";
+    label: string;
+    scope?: string;
+}
+
+export interface GraphEdge {
+    from: string;
+    to: string;
+    kind: GraphEdgeKind;
+    label?: string;
+}
+
+export interface DependencyGraph {
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+}
+
+export interface DocumentDefinition {
+    kind: string;
+    [key: string]: unknown;
+}
+
+export type DocumentNode = string | null | DocumentDefinition;
+
+export interface ContainerDocument {
+    bindings: Record<string, DocumentNode>;
+}
+
+export interface DocumentExport {
+    document: ContainerDocument;
+    skipped: string[];
+}
+
+export interface CompiledChain {
+    readonly parent: CompiledChain | undefined;
+    readonly dependency: Dependency;
+}
+
+export interface CompiledRuntime {
+    singleton<T>(def: Definition.Type<T>, chain: CompiledChain | undefined, create: (chain: CompiledChain) => Promise<T>): Promise<T>;
+    transient<T>(def: Definition.Type<T>, chain: CompiledChain | undefined, create: (chain: CompiledChain) => Promise<T>): Promise<T>;
+    activate<T>(def: Definition.Type<T>, instance: T): Promise<T>;
+    composites(def: Definition.Type): [Definition.Array | undefined, Definition.Record | undefined];
+    enter(chain: CompiledChain | undefined, dep: Dependency): CompiledChain;
+    resolve<T>(dep: Dependency<T>, chain: CompiledChain | undefined): Promise<T>;
+}
+
+export interface CompiledModule {
+    readonly types: string[];
+    readonly shapes: string[];
+    create(definitions: Definition[], runtime: CompiledRuntime): Array<() => Promise<unknown>>;
+}
+
+export interface IContainerCompiler {
+    compile(): string;
+    link(module: CompiledModule): void;
+    unlink(): void;
+    get<T>(type: Type<T>): Promise<T> | undefined;
+}
+export namespace IContainerCompiler {
+    export const Type = Typing.type<IContainerCompiler>("@saggitarius/di::IContainerCompiler");
+}
+
+export enum ResolutionEventKind {
+    BeforeResolve = "beforeResolve",
+    AfterResolve = "afterResolve",
+    InstanceCreated = "instanceCreated",
+    CacheHit = "cacheHit",
+    ResolutionFailed = "resolutionFailed",
+}
+
+export interface ResolutionEvent {
+    kind: ResolutionEventKind;
+    dependency: Dependency;
+    depth: number;
+    time: number;
+    duration?: number;
+    instance?: unknown;
+    error?: unknown;
+}
+
+export type ResolutionListener = (event: ResolutionEvent) => void;
+
+export interface IResolutionEvents {
+    on(kind: ResolutionEventKind, listener: ResolutionListener): void;
+    off(kind: ResolutionEventKind, listener: ResolutionListener): void;
+    has(kind: ResolutionEventKind): boolean;
+    emit(event: ResolutionEvent): void;
+}
+export namespace IResolutionEvents {
+    export const Type = Typing.type<IResolutionEvents>("@saggitarius/di::IResolutionEvents");
+}
+
+export interface Invocation {
+    readonly instance: Record<string, unknown>;
+    readonly method: PropertyKey;
+    readonly dependency: Definition.Type;
+    args: unknown[];
+    next(): unknown;
+}
+
+export interface IInterceptor {
+    intercept(invocation: Invocation): unknown;
+}
+export namespace IInterceptor {
+    export const Type = Typing.type<IInterceptor>("@saggitarius/di::IInterceptor");
+}
+
+export type InterceptorFilter = (def: Definition.Type) => boolean;
+
+export interface IInterceptorRegistry {
+    register(interceptor: Dependency<IInterceptor>, filter?: InterceptorFilter): void;
+    get(def: Definition.Type): Dependency<IInterceptor>[];
+}
+export namespace IInterceptorRegistry {
+    export const Type = Typing.type<IInterceptorRegistry>("@saggitarius/di::IInterceptorRegistry");
+}
+
+export interface ContainerSnapshot {
+    readonly definitions: ReadonlyMap<Type, Definition>;
+    readonly instances: ReadonlyMap<Definition, Promise<unknown>>;
+}
+
+export interface IConfigSource {
+    load(): Record<string, unknown>;
+}
+
+export interface IConfigRegistry extends IConfigSource {
+    add(source: IConfigSource): void;
+    get(key: string): unknown;
+}
+export namespace IConfigRegistry {
+    export const Type = Typing.type<IConfigRegistry>("@saggitarius/di::IConfigRegistry");
+}
+
+export interface IContainerModule {
+    readonly name?: string;
+    readonly dependencies?: IContainerModule[];
+    register(bind: IDependencyManager["bind"]): void;
+    load?(manager: IDependencyManager): void | Promise<void>;
+    unload?(manager: IDependencyManager): void | Promise<void>;
 }
 
 export interface IDependencyManager {
-    get<T>(type: Typing.Class<T>): Promise<T>;
-    get<T>(type: Typing.Constructor<T>): Promise<T>;
-    get<T>(type: Typing.Typed<T>): Promise<T>;
-    get<T>(type: Type<T>): Promise<T>;
-    get<T>(type: string): Promise<T>;
+    get<T>(type: Typing.Class<T>, name?: string): Promise<T>;
+    get<T>(type: Typing.Constructor<T>, name?: string): Promise<T>;
+    get<T>(type: Typing.Typed<T>, name?: string): Promise<T>;
+    get<T>(type: Type<T>, name?: string): Promise<T>;
+    get<T>(type: string, name?: string): Promise<T>;
 
     create<T>(type: Typing.Class<T>, params?: Record<string, unknown>): Promise<T>;
     create<T>(type: Typing.Constructor<T>, params?: Record<string, unknown>): Promise<T>;
     create<T>(type: Typing.Typed<T>, params?: Record<string, unknown>): Promise<T>;
     create<T>(type: Type<T>, params?: Record<string, unknown>): Promise<T>;
     create<T>(type: string, params?: Record<string, unknown>): Promise<T>;
+    create<T>(type: Typing.Class<T>, name: string, params?: Record<string, unknown>): Promise<T>;
+    create<T>(type: Typing.Constructor<T>, name: string, params?: Record<string, unknown>): Promise<T>;
+    create<T>(type: Typing.Typed<T>, name: string, params?: Record<string, unknown>): Promise<T>;
+    create<T>(type: Type<T>, name: string, params?: Record<string, unknown>): Promise<T>;
+    create<T>(type: string, name: string, params?: Record<string, unknown>): Promise<T>;
+
+    getSync<T>(type: Typing.Class<T>, name?: string): T;
+    getSync<T>(type: Typing.Constructor<T>, name?: string): T;
+    getSync<T>(type: Typing.Typed<T>, name?: string): T;
+    getSync<T>(type: Type<T>, name?: string): T;
+    getSync<T>(type: string, name?: string): T;
+
+    createSync<T>(type: Typing.Class<T>, params?: Record<string, unknown>): T;
+    createSync<T>(type: Typing.Constructor<T>, params?: Record<string, unknown>): T;
+    createSync<T>(type: Typing.Typed<T>, params?: Record<string, unknown>): T;
+    createSync<T>(type: Type<T>, params?: Record<string, unknown>): T;
+    createSync<T>(type: string, params?: Record<string, unknown>): T;
+    createSync<T>(type: Typing.Class<T>, name: string, params?: Record<string, unknown>): T;
+    createSync<T>(type: Typing.Constructor<T>, name: string, params?: Record<string, unknown>): T;
+    createSync<T>(type: Typing.Typed<T>, name: string, params?: Record<string, unknown>): T;
+    createSync<T>(type: Type<T>, name: string, params?: Record<string, unknown>): T;
+    createSync<T>(type: string, name: string, params?: Record<string, unknown>): T;
 
 
     bind<T>(type: Typing.Typed<T>): IBinding<T>;
@@ -119,7 +400,43 @@ export interface IDependencyManager {
     bind<T extends Record<string, unknown>>(type: Type<T>): IBinding<T> & IRecordBinding<T>;
     bind<T extends Record<string, unknown>>(type: Typing.Typed<T>): IBinding<T> & IRecordBinding<T>;
     bind<T extends Record<string, unknown>>(type: string): IBinding<T> & IRecordBinding<T>;
-} 
+    bindMulti<T>(type: Reference<T[]>): IMultiBinding<T>;
+
+    override<T>(type: Typing.Typed<T>): IBinding<T>;
+    override<T>(type: Type<T>): IBinding<T>;
+    override<T = unknown>(type: string): IBinding<T>;
+    override<T extends Typing.Class>(type: T): IBinding<T> & IClassBinding<T>;
+    override<T extends ArrayLike<unknown>>(type: Type<T>): IBinding<T> & IArrayBinding<T>;
+    override<T extends ArrayLike<unknown>>(type: Typing.Typed<T>): IBinding<T> & IArrayBinding<T>;
+    override<T extends ArrayLike<unknown>>(type: string): IBinding<T> & IArrayBinding<T>;
+    override<T extends Record<string, unknown>>(type: Type<T>): IBinding<T> & IRecordBinding<T>;
+    override<T extends Record<string, unknown>>(type: Typing.Typed<T>): IBinding<T> & IRecordBinding<T>;
+    override<T extends Record<string, unknown>>(type: string): IBinding<T> & IRecordBinding<T>;
+
+    snapshot(): ContainerSnapshot;
+    restore(snapshot: ContainerSnapshot): void;
+
+    createChild(): IDependencyManager;
+    openScope(scope: string): void;
+    closeScope(scope: string): Promise<void>;
+    dispose(): Promise<void>;
+
+    load(module: IContainerModule): Promise<void>;
+    unload(module: IContainerModule): Promise<void>;
+
+    validate(): Promise<ValidationReport>;
+    graph(): DependencyGraph;
+    exportDocument(): DocumentExport;
+    compile(): string;
+    useCompiled(module: CompiledModule): void;
+
+    on(kind: ResolutionEventKind, listener: ResolutionListener): void;
+    off(kind: ResolutionEventKind, listener: ResolutionListener): void;
+
+    intercept(interceptor: Dependency<IInterceptor>, filter?: InterceptorFilter): void;
+    addConfig(source: IConfigSource | Record<string, unknown>): void;
+    decorate<T>(type: Reference<T>, decorator: (inner: T, ...deps: unknown[]) => T | Promise<T>, deps?: Dependency[]): void;
+}
 export namespace IDependencyManager {
     export const Type = Typing.type<IDependencyManager>("@saggitarius/di::IDependencyManager");
 }
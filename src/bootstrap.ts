@@ -1,34 +1,62 @@
 import * as api from "./api";
 import * as lib from "./lib";
+import * as config from "./config";
+import * as compiler from "./compiler";
+import * as decorators from "./decorators";
+import * as validation from "./validation";
+import * as events from "./events";
+import * as interception from "./interception";
 
-export function bootstrap(): api.IDependencyManager {
+export function bootstrap(
+    parentDefs?: lib.DefinitionRegistry,
+    parentObjs?: lib.InstanceRegistry,
+    parentConfig?: api.IConfigSource,
+): api.IDependencyManager {
 
-    const defRegistry = new Map();
-    const objRegistry = new WeakMap();
-    const defResolver = new lib.DefinitionResolver(defRegistry, []);
-    const depsProvider = new lib.DependencyProvider(defResolver);
-    const objFactory = new lib.ObjectFactory(depsProvider);
-    const objProvider = new lib.ObjectProvider(objFactory, objRegistry);
-    const depsManager: api.IDependencyManager = new lib.DependencyManager(depsProvider, defRegistry);
+    const defRegistry: lib.DefinitionRegistry = new lib.ScopedMap(parentDefs);
+    const objRegistry: lib.InstanceRegistry = new lib.ScopedMap(parentObjs);
+    const defResolver = new lib.DefinitionResolver(defRegistry, [new decorators.InjectionResolver()]);
+    const resolutionEvents = new events.ResolutionEvents();
+    const interceptors = new interception.InterceptorRegistry();
+    const configRegistry = new config.ConfigRegistry(parentConfig);
+    const depsProvider = new lib.DependencyProvider(defResolver, resolutionEvents, configRegistry);
+    const objFactory = new lib.ObjectFactory(depsProvider, resolutionEvents, interceptors);
+    const disposables = new lib.Disposables();
+    const scopeManager = new lib.ScopeManager(objFactory, objRegistry, disposables, resolutionEvents);
+    const validator = new validation.ContainerValidator(defRegistry, defResolver, interceptors);
+    const containerCompiler = new compiler.ContainerCompiler(defRegistry, objRegistry, defResolver, depsProvider, interceptors, disposables);
+    const depsManager = new lib.DependencyManager(depsProvider, defRegistry, objRegistry, scopeManager, validator, resolutionEvents, interceptors, configRegistry, containerCompiler, disposables);
     
-    depsProvider.factory = objFactory;
-    depsProvider.provider = objProvider;
+    depsProvider.scopes = scopeManager;
+    depsManager.containerFactory = bootstrap;
 
     depsManager.bind(api.IDefinitionResolver).toType(lib.DefinitionResolver);
     depsManager.bind(api.IDependencyProvider).toType(lib.DependencyProvider);
     depsManager.bind(api.IObjectFactory).toType(lib.ObjectFactory);
     depsManager.bind(api.IObjectProvider).toType(lib.ObjectProvider);
+    depsManager.bind(api.IScopeManager).toType(lib.ScopeManager);
+    depsManager.bind(api.IContainerValidator).toType(validation.ContainerValidator);
+    depsManager.bind(api.IResolutionEvents).toType(events.ResolutionEvents);
+    depsManager.bind(api.IInterceptorRegistry).toType(interception.InterceptorRegistry);
+    depsManager.bind(api.IConfigRegistry).toType(config.ConfigRegistry);
+    depsManager.bind(api.IContainerCompiler).toType(compiler.ContainerCompiler);
     depsManager.bind(api.IDependencyManager).toType(lib.DependencyManager);
     depsManager.bind(api.IDefinitionResolver).toType(lib.DefinitionResolver);
 
     depsManager.bind(lib.DefinitionRegistry)
-        .toFactory(() => new Map(defRegistry.entries()));
+        .toValue(defRegistry);
 
     depsManager.bind(lib.InstanceRegistry)
-        .toClass(WeakMap);
+        .toValue(objRegistry);
+
+    depsManager.bind(lib.ContainerFactory)
+        .toValue(bootstrap);
 
     depsManager.bind(lib.DefinitionResolvers)
-        .toArray();
+        .toArray([decorators.InjectionResolver]);
+
+    depsManager.bind(decorators.InjectionResolver)
+        .toClass(decorators.InjectionResolver);
 
     const binding = depsManager.bind(lib.DefinitionResolver);
     binding.withArgument(0, lib.DefinitionRegistry);
@@ -39,21 +67,54 @@ export function bootstrap(): api.IDependencyManager {
 
     depsManager.bind(lib.DependencyProvider)
         .toClass(lib.DependencyProvider)
-        .withArguments([api.IDefinitionResolver])
-        .withProperty("provider", api.IObjectProvider)
-        .withProperty("factory", api.IObjectFactory);
+        .withArguments([api.IDefinitionResolver, api.IResolutionEvents, api.IConfigRegistry])
+        .withProperty("scopes", api.IScopeManager);
 
     depsManager.bind(lib.ObjectFactory)
         .toClass(lib.ObjectFactory)
-        .withArguments([api.IDependencyProvider, lib.InstanceRegistry]);
+        .withArguments([api.IDependencyProvider, api.IResolutionEvents, api.IInterceptorRegistry]);
 
     depsManager.bind(lib.ObjectProvider)
         .toClass(lib.ObjectProvider)
-        .withArguments([api.IObjectFactory, lib.InstanceRegistry]);
+        .withArguments([api.IObjectFactory, lib.InstanceRegistry, lib.Disposables, api.IResolutionEvents]);
+
+    depsManager.bind(lib.Disposables)
+        .toValue(disposables);
+
+    depsManager.bind(lib.ScopeManager)
+        .toValue(scopeManager);
+
+    depsManager.bind(events.ResolutionEvents)
+        .toValue(resolutionEvents);
+
+    depsManager.bind(interception.InterceptorRegistry)
+        .toValue(interceptors);
+
+    depsManager.bind(config.ConfigRegistry)
+        .toValue(configRegistry);
+
+    depsManager.bind(compiler.ContainerCompiler)
+        .toValue(containerCompiler);
+
+    depsManager.bind(validation.ContainerValidator)
+        .toClass(validation.ContainerValidator)
+        .withArguments([lib.DefinitionRegistry, api.IDefinitionResolver, api.IInterceptorRegistry]);
 
     depsManager.bind(lib.DependencyManager)
         .toClass(lib.DependencyManager)
-        .withArguments([api.IDependencyProvider, lib.DefinitionRegistry]);
+        .withArguments([
+            api.IDependencyProvider,
+            lib.DefinitionRegistry,
+            lib.InstanceRegistry,
+            api.IScopeManager,
+            api.IContainerValidator,
+            api.IResolutionEvents,
+            api.IInterceptorRegistry,
+            api.IConfigRegistry,
+            api.IContainerCompiler,
+            lib.Disposables,
+        ])
+        .withProperty("containerFactory", lib.ContainerFactory);
     
     return depsManager;
 }
@@ -0,0 +1,490 @@
+import { Typing } from "@saggitarius/typing";
+import {
+    CompiledChain,
+    CompiledModule,
+    CompiledRuntime,
+    Dependency,
+    IContainerCompiler,
+    IDefinitionResolver,
+    IDependencyProvider,
+    IInterceptorRegistry,
+    Scope,
+} from "./api";
+import { Definition } from "./definition";
+import { ResolutionError } from "./errors";
+import { compositesOf, DefinitionRegistry, Disposables, InstanceRegistry, instanceKeyOf, settle } from "./lib";
+
+const InternalPrefixes = ["@saggitarius/di::", "@saggitarius/di/"];
+
+type CompiledEntry = () => Promise<unknown>;
+
+interface LinkedModule {
+    revision: number;
+    definitions: Array<[Type, Definition]>;
+    entries: Map<Type, CompiledEntry>;
+}
+
+function isInternal(type: Type): boolean {
+    const name = Typing.nameOf(type);
+    return InternalPrefixes.some((prefix) => name.startsWith(prefix));
+}
+
+function shapeOf(dep: Dependency | undefined): unknown {
+    if (typeof(dep) === "undefined") {
+        return null;
+    }
+    if (!Definition.isDefinition(dep)) {
+        return Typing.nameOf(Typing.type(dep));
+    }
+    switch (dep.kind) {
+        case Definition.Kind.Type:
+            return [
+                dep.kind,
+                dep.scope || null,
+                !!dep.factory,
+                !!dep.decorated,
+                (dep.interceptors || []).length,
+                (dep.args || []).map(shapeOf),
+                shapesOf(dep.props || {}),
+            ];
+        case Definition.Kind.Array:
+            return [dep.kind, (dep.elements || []).map(shapeOf)];
+        case Definition.Kind.Record:
+            return [dep.kind, shapesOf(dep.elements || {})];
+        case Definition.Kind.Reference:
+            return [dep.kind, Typing.nameOf(dep.target), !!dep.tags];
+        case Definition.Kind.Multi:
+            return [dep.kind, dep.members.map((member) => [member.priority, shapeOf(member.dependency)])];
+    }
+    return [dep.kind];
+}
+
+function shapesOf(deps: Record<string, Dependency | undefined>): unknown {
+    return Object.keys(deps).map((key) => [key, shapeOf(deps[key])]);
+}
+
+class CompilationPlan {
+    public constructor(
+        private resolve: (def: Definition) => Definition,
+        private intercepted: (def: Definition.Type) => boolean,
+    ) {}
+
+    public build(registry: Map<Type, Definition>): Map<Type, Definition> {
+        const definitions = new Map<Type, Definition>();
+        for (const [type, raw] of registry) {
+            const def = isInternal(type) ? undefined : this.definitionOf(raw);
+            if (def) {
+                definitions.set(type, def);
+            }
+        }
+        while (this.prune(definitions)) {
+            continue;
+        }
+        return definitions;
+    }
+
+    public definitionOf(raw: Definition): Definition | undefined {
+        switch (raw.kind) {
+            case Definition.Kind.Type:
+                return this.typeOf(raw);
+            case Definition.Kind.Value:
+            case Definition.Kind.Array:
+            case Definition.Kind.Record:
+            case Definition.Kind.Multi:
+                return raw;
+            case Definition.Kind.Reference:
+                return raw.tags ? undefined : raw;
+        }
+        return undefined;
+    }
+
+    private typeOf(raw: Definition.Type): Definition.Type | undefined {
+        let def: Definition;
+        try {
+            def = this.resolve(raw);
+        } catch (err) {
+            return undefined;
+        }
+        if (!Definition.isType(def) || !def.factory || def.decorated) {
+            return undefined;
+        }
+        if ((def.interceptors || []).length > 0 || this.intercepted(def)) {
+            return undefined;
+        }
+        if (def.scope && def.scope !== Scope.Singleton && def.scope !== Scope.Transient) {
+            return undefined;
+        }
+        return def;
+    }
+
+    private prune(definitions: Map<Type, Definition>): boolean {
+        const removed = new Set<Type>();
+        for (const [type, def] of definitions) {
+            if (Definition.isReference(def) && !definitions.has(def.target)) {
+                removed.add(type);
+            }
+        }
+        const done = new Set<Type>();
+        const stack: Type[] = [];
+        const visit = (type: Type) => {
+            if (done.has(type)) {
+                return;
+            }
+            const index = stack.indexOf(type);
+            if (index >= 0) {
+                stack.slice(index).forEach((item) => removed.add(item));
+                return;
+            }
+            stack.push(type);
+            for (const target of edgesOf(definitions.get(type))) {
+                if (definitions.has(target)) {
+                    visit(target);
+                }
+            }
+            stack.pop();
+            done.add(type);
+        };
+        for (const type of definitions.keys()) {
+            visit(type);
+        }
+        for (const type of removed) {
+            definitions.delete(type);
+        }
+        return removed.size > 0;
+    }
+}
+
+function edgesOf(def: Definition): Type[] {
+    switch (def.kind) {
+        case Definition.Kind.Type:
+            return [...(def.args || []), ...Object.values(def.props || {})].flatMap(targetsOf);
+        case Definition.Kind.Array:
+            return (def.elements || []).flatMap(targetsOf);
+        case Definition.Kind.Record:
+            return Object.values(def.elements || {}).flatMap(targetsOf);
+        case Definition.Kind.Multi:
+            return def.members.flatMap((member) => targetsOf(member.dependency));
+        case Definition.Kind.Reference:
+            return [def.target];
+    }
+    return [];
+}
+
+function targetsOf(dep: Dependency | undefined): Type[] {
+    if (typeof(dep) === "undefined") {
+        return [];
+    }
+    if (!Definition.isDefinition(dep)) {
+        return [Typing.type(dep)];
+    }
+    switch (dep.kind) {
+        case Definition.Kind.Array:
+            return (dep.elements || []).flatMap(targetsOf);
+        case Definition.Kind.Record:
+            return Object.values(dep.elements || {}).flatMap(targetsOf);
+        case Definition.Kind.Reference:
+            return dep.tags ? [] : [dep.target];
+    }
+    return [];
+}
+
+class ModuleWriter {
+    private index = new Map<Type, number>();
+
+    public constructor(
+        private definitions: Map<Type, Definition>,
+    ) {
+        for (const type of definitions.keys()) {
+            this.index.set(type, this.index.size);
+        }
+    }
+
+    public write(): string {
+        const types = [...this.definitions.keys()];
+        const defs = [...this.definitions.values()];
+        const lines = [
+            "\"use strict\";",
+            "// Generated by @saggitarius/di, do not edit.",
+            `exports.types = ${JSON.stringify(types.map((type) => Typing.nameOf(type)))};`,
+            `exports.shapes = ${JSON.stringify(defs.map((def) => JSON.stringify(shapeOf(def))))};`,
+            "exports.create = function (d, rt) {",
+        ];
+        defs.forEach((def, index) => {
+            lines.push(`    const d${index} = d[${index}];`);
+            if (Definition.isType(def) && ((def.args || []).length > 0 || Object.keys(def.props || {}).length > 0)) {
+                lines.push(`    const [a${index}, p${index}] = rt.composites(d${index});`);
+            }
+        });
+        defs.forEach((def, index) => {
+            lines.push(`    // ${Typing.nameOf(types[index])}`);
+            lines.push(...this.entry(def, index));
+        });
+        lines.push(`    return [${defs.map((def, index) => `f${index}`).join(", ")}];`, "};", "");
+        return lines.join("\n");
+    }
+
+    private entry(def: Definition, index: number): string[] {
+        const name = `d${index}`;
+        switch (def.kind) {
+            case Definition.Kind.Type:
+                return this.typeEntry(def, index);
+            case Definition.Kind.Value:
+                return this.function(index, `Promise.resolve(${name}.value)`);
+            case Definition.Kind.Array:
+                return this.function(index, this.array(def.elements || [], `${name}.elements`, "c"), name);
+            case Definition.Kind.Record:
+                return this.function(index, this.record(def.elements || {}, `${name}.elements`, "c"), name);
+            case Definition.Kind.Multi:
+                return this.function(index, this.multi(def, name), name);
+            case Definition.Kind.Reference:
+                return this.function(index, this.call(def.target, "c"));
+        }
+        throw new Error(`Cannot compile ${def.kind} definition`);
+    }
+
+    private function(index: number, expression: string, enter?: string): string[] {
+        return [
+            `    function f${index}(c) {`,
+            ...(enter ? [`        c = rt.enter(c, ${enter});`] : []),
+            `        return ${expression};`,
+            "    }",
+        ];
+    }
+
+    private typeEntry(def: Definition.Type, index: number): string[] {
+        const name = `d${index}`;
+        const scope = def.scope === Scope.Transient ? "transient" : "singleton";
+        const args = (def.args || []).map((arg, key) => this.expression(arg, `${name}.args[${key}]`, "a"));
+        const props = Object.keys(def.props || {});
+        const lines = [
+            `    function f${index}(c) {`,
+            `        return rt.${scope}(${name}, c, async (c) => {`,
+        ];
+        if (args.length > 0) {
+            lines.push(
+                `            const a = rt.enter(c, a${index});`,
+                `            const args = await Promise.all([${args.join(", ")}]);`,
+                `            const instance = await ${name}.factory(...args);`,
+            );
+        } else {
+            lines.push(`            const instance = await ${name}.factory();`);
+        }
+        if (props.length > 0) {
+            const values = props.map((key) => this.expression(def.props[key], `${name}.props[${JSON.stringify(key)}]`, "p"));
+            lines.push(
+                `            const p = rt.enter(c, p${index});`,
+                `            const props = await Promise.all([${values.join(", ")}]);`,
+            );
+            props.forEach((key, position) => {
+                lines.push(`            instance[${JSON.stringify(key)}] = props[${position}];`);
+            });
+        }
+        lines.push(
+            `            return rt.activate(${name}, instance);`,
+            "        });",
+            "    }",
+        );
+        return lines;
+    }
+
+    private expression(dep: Dependency | undefined, path: string, chain: string): string {
+        if (typeof(dep) === "undefined") {
+            return "undefined";
+        }
+        if (!Definition.isDefinition(dep)) {
+            return this.index.has(Typing.type(dep))
+                ? this.call(Typing.type(dep), chain)
+                : `rt.resolve(${path}, ${chain})`;
+        }
+        switch (dep.kind) {
+            case Definition.Kind.Value:
+                return `${path}.value`;
+            case Definition.Kind.Array:
+                return `((c) => ${this.array(dep.elements || [], `${path}.elements`, "c")})(rt.enter(${chain}, ${path}))`;
+            case Definition.Kind.Record:
+                return `((c) => ${this.record(dep.elements || {}, `${path}.elements`, "c")})(rt.enter(${chain}, ${path}))`;
+            case Definition.Kind.Reference:
+                if (!dep.tags && this.index.has(dep.target)) {
+                    return this.call(dep.target, chain);
+                }
+                break;
+        }
+        return `rt.resolve(${path}, ${chain})`;
+    }
+
+    private array(elements: Array<Dependency | undefined>, path: string, chain: string): string {
+        const values = elements.map((elem, key) => this.expression(elem, `${path}[${key}]`, chain));
+        return `Promise.all([${values.join(", ")}])`;
+    }
+
+    private record(elements: Record<string, Dependency | undefined>, path: string, chain: string): string {
+        const keys = Object.keys(elements);
+        if (keys.length === 0) {
+            return "Promise.resolve({})";
+        }
+        const values = keys.map((key) => this.expression(elements[key], `${path}[${JSON.stringify(key)}]`, chain));
+        const entries = keys.map((key, position) => `${JSON.stringify(key)}: v[${position}]`);
+        return `Promise.all([${values.join(", ")}]).then((v) => ({${entries.join(", ")}}))`;
+    }
+
+    private multi(def: Definition.Multi, name: string): string {
+        const values = def.members
+            .map((member, key) => ({member, key}))
+            .sort((a, b) => b.member.priority - a.member.priority)
+            .map(({member, key}) => this.expression(member.dependency, `${name}.members[${key}].dependency`, "c"));
+        return `Promise.all([${values.join(", ")}])`;
+    }
+
+    private call(type: Type, chain: string): string {
+        return `f${this.index.get(type)}(${chain})`;
+    }
+}
+
+function pathOf(chain: CompiledChain | undefined): Dependency[] {
+    const path = [];
+    for (let link = chain; link; link = link.parent) {
+        path.unshift(link.dependency);
+    }
+    return path;
+}
+
+function failure(err: unknown, def: Definition, chain: CompiledChain | undefined): unknown {
+    if (err instanceof ResolutionError) {
+        return err;
+    }
+    return new ResolutionError(err instanceof Error ? err.message : String(err), def, pathOf(chain), err);
+}
+
+class Runtime implements CompiledRuntime {
+    public constructor(
+        private depsProvider: IDependencyProvider,
+        private registry: InstanceRegistry,
+        private disposables: Disposables,
+    ) {}
+
+    public singleton<T>(def: Definition.Type<T>, chain: CompiledChain | undefined, create: (chain: CompiledChain) => Promise<T>): Promise<T> {
+        const key = instanceKeyOf(def);
+        let instance = this.registry.get(key) as Promise<T> | undefined;
+        if (!instance) {
+            instance = create(this.enter(chain, def)).then(
+                (created) => {
+                    this.disposables.track(created, def);
+                    return settle<T>(instance, created);
+                },
+                (err) => {
+                    if (this.registry.get(key) === instance) {
+                        this.registry.delete(key);
+                    }
+                    throw failure(err, def, chain);
+                },
+            );
+            this.registry.set(key, instance);
+        }
+        return instance;
+    }
+
+    public async transient<T>(def: Definition.Type<T>, chain: CompiledChain | undefined, create: (chain: CompiledChain) => Promise<T>): Promise<T> {
+        const instance = await create(this.enter(chain, def)).catch((err) => {
+            throw failure(err, def, chain);
+        });
+        this.disposables.track(instance, def, true);
+        return instance;
+    }
+
+    public async activate<T>(def: Definition.Type<T>, instance: T): Promise<T> {
+        Typing.store(instance, def.type);
+        for (const activator of def.activators || []) {
+            await activator(instance);
+        }
+        return instance;
+    }
+
+    public composites(def: Definition.Type): [Definition.Array | undefined, Definition.Record | undefined] {
+        return compositesOf(def);
+    }
+
+    public enter(chain: CompiledChain | undefined, dep: Dependency): CompiledChain {
+        return {parent: chain, dependency: dep};
+    }
+
+    public resolve<T>(dep: Dependency<T>, chain: CompiledChain | undefined): Promise<T> {
+        return this.depsProvider.get<T>({stack: pathOf(chain)}, dep);
+    }
+}
+
+@Typing.register("@saggitarius/di/compiler::ContainerCompiler")
+export class ContainerCompiler implements IContainerCompiler {
+    private plan: CompilationPlan;
+    private linked?: LinkedModule;
+
+    public constructor(
+        private defRegistry: DefinitionRegistry,
+        private instRegistry: InstanceRegistry,
+        private defResolver: IDefinitionResolver,
+        private depsProvider: IDependencyProvider,
+        private interceptors: IInterceptorRegistry,
+        private disposables: Disposables,
+    ) {
+        this.plan = new CompilationPlan(
+            (def) => this.defResolver.resolveSync({stack: []}, def),
+            (def) => this.interceptors.get(def).length > 0,
+        );
+    }
+
+    public compile(): string {
+        return new ModuleWriter(this.plan.build(this.defRegistry.flatten())).write();
+    }
+
+    public link(module: CompiledModule): void {
+        const definitions: Array<[Type, Definition]> = [];
+        const table: Definition[] = [];
+        module.types.forEach((name, index) => {
+            const type = Typing.type(name);
+            const raw = this.defRegistry.get(type);
+            const def = raw && this.plan.definitionOf(raw);
+            if (!def || JSON.stringify(shapeOf(def)) !== module.shapes[index]) {
+                throw new Error(`Compiled container does not match the binding of "${name}"`);
+            }
+            definitions.push([type, raw]);
+            table.push(def);
+        });
+        const runtime = new Runtime(this.depsProvider, this.instRegistry, this.disposables);
+        const entries = new Map<Type, CompiledEntry>();
+        module.create(table, runtime).forEach((entry, index) => {
+            entries.set(definitions[index][0], entry);
+        });
+        this.linked = {revision: this.defRegistry.revision, definitions, entries};
+    }
+
+    public unlink(): void {
+        this.linked = undefined;
+    }
+
+    public get<T>(type: Type<T>): Promise<T> | undefined {
+        const entry = this.verified() ? this.linked.entries.get(type) : undefined;
+        if (!entry) {
+            return undefined;
+        }
+        return (entry() as Promise<T>).catch((err) => {
+            if (err instanceof ResolutionError) {
+                throw err;
+            }
+            throw new ResolutionError(err instanceof Error ? err.message : String(err), type, [], err);
+        });
+    }
+
+    private verified(): boolean {
+        if (!this.linked) {
+            return false;
+        }
+        if (this.linked.revision === this.defRegistry.revision) {
+            return true;
+        }
+        if (this.linked.definitions.every(([type, def]) => this.defRegistry.get(type) === def)) {
+            this.linked.revision = this.defRegistry.revision;
+            return true;
+        }
+        this.unlink();
+        return false;
+    }
+}
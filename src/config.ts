@@ -0,0 +1,113 @@
+import { Typing } from "@saggitarius/typing";
+import { IConfigRegistry, IConfigSource } from "./api";
+import { Definition } from "./definition";
+
+type ConfigTree = Record<string, unknown>;
+
+function isTree(value: unknown): value is ConfigTree {
+    return typeof(value) === "object" && value !== null && !Array.isArray(value);
+}
+
+function merge(target: ConfigTree, source: ConfigTree): ConfigTree {
+    const result = {...target};
+    for (const [key, value] of Object.entries(source)) {
+        result[key] = isTree(value) && isTree(result[key])
+            ? merge(result[key] as ConfigTree, value)
+            : value;
+    }
+    return result;
+}
+
+@Typing.register("@saggitarius/di/config::ObjectConfigSource")
+export class ObjectConfigSource implements IConfigSource {
+    public constructor(
+        private values: Record<string, unknown>,
+    ) {}
+
+    public load(): Record<string, unknown> {
+        return this.values;
+    }
+}
+
+@Typing.register("@saggitarius/di/config::ConfigRegistry")
+export class ConfigRegistry implements IConfigRegistry {
+    private sources: IConfigSource[] = [];
+    private merged?: [Record<string, unknown> | undefined, Record<string, unknown>];
+
+    public constructor(
+        private parent?: IConfigSource,
+    ) {}
+
+    public add(source: IConfigSource): void {
+        this.sources.push(source);
+        this.merged = undefined;
+    }
+
+    public load(): Record<string, unknown> {
+        const inherited = this.parent ? this.parent.load() : undefined;
+        if (!this.merged || this.merged[0] !== inherited) {
+            this.merged = [inherited, this.sources.reduce(
+                (values, source) => merge(values, source.load()),
+                inherited || {},
+            )];
+        }
+        return this.merged[1];
+    }
+
+    public get(key: string): unknown {
+        let node: unknown = this.load();
+        for (const name of key.split(".")) {
+            if (!isTree(node)) {
+                return undefined;
+            }
+            node = node[name];
+        }
+        return node;
+    }
+}
+
+const Booleans: Record<string, boolean> = {
+    "true": true, "yes": true, "on": true, "1": true,
+    "false": false, "no": false, "off": false, "0": false,
+};
+
+export function coerceConfig(value: unknown, type?: Definition.ConfigType): unknown {
+    switch (type) {
+        case "string":
+            if (typeof(value) === "object" && value !== null) {
+                throw new Error(`expected string, got ${JSON.stringify(value)}`);
+            }
+            return String(value);
+        case "number":
+            if (typeof(value) === "number" && !isNaN(value)) {
+                return value;
+            }
+            if (typeof(value) === "string" && value.trim() !== "" && !isNaN(Number(value))) {
+                return Number(value);
+            }
+            throw new Error(`expected number, got ${JSON.stringify(value)}`);
+        case "boolean":
+            if (typeof(value) === "boolean") {
+                return value;
+            }
+            if (Object.prototype.hasOwnProperty.call(Booleans, String(value).trim().toLowerCase())) {
+                return Booleans[String(value).trim().toLowerCase()];
+            }
+            throw new Error(`expected boolean, got ${JSON.stringify(value)}`);
+        case "json":
+            if (typeof(value) !== "string") {
+                return value;
+            }
+            try {
+                return JSON.parse(value);
+            } catch (err) {
+                throw new Error(`expected JSON, got ${JSON.stringify(value)}`);
+            }
+        case "section":
+            if (!isTree(value)) {
+                throw new Error(`expected section, got ${JSON.stringify(value)}`);
+            }
+            return merge({}, value);
+    }
+    return value;
+}
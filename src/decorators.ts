@@ -0,0 +1,95 @@
+import { Typing } from "@saggitarius/typing";
+import { Context, Dependency, IDefinitionResolver } from "./api";
+import { Definition } from "./definition";
+
+interface InjectionMetadata {
+    args: Array<Dependency | undefined>;
+    props: Record<string, Dependency | undefined>;
+}
+
+const metadata = new WeakMap<Typing.Constructor, InjectionMetadata>();
+const injectables = new Map<Type, Typing.Constructor>();
+
+function ownMetadata(target: Typing.Constructor): InjectionMetadata {
+    let meta = metadata.get(target);
+    if (!meta) {
+        meta = {args: [], props: {}};
+        metadata.set(target, meta);
+    }
+    return meta;
+}
+
+function collectMetadata(target: Typing.Constructor): InjectionMetadata | undefined {
+    const chain = [];
+    for (let ctor = target; ctor && ctor !== Function.prototype; ctor = Object.getPrototypeOf(ctor)) {
+        chain.unshift(ctor);
+    }
+    let result: InjectionMetadata | undefined;
+    for (const ctor of chain) {
+        const meta = metadata.get(ctor);
+        if (meta) {
+            result = {
+                args: meta.args.length > 0 || !result ? [...meta.args] : result.args,
+                props: {...(result && result.props), ...meta.props},
+            };
+        }
+    }
+    return result;
+}
+
+export function Injectable(name?: string): ClassDecorator {
+    return (target) => {
+        if (name) {
+            Typing.register(name)(target);
+        }
+        injectables.set(Typing.type(target), target as unknown as Typing.Constructor);
+        return target;
+    };
+}
+
+export function injectableOf(type: Type): Typing.Constructor | undefined {
+    return injectables.get(type);
+}
+
+export function Inject(token: Dependency): ParameterDecorator & PropertyDecorator {
+    return (target: Typing.Constructor | Record<string, unknown>, key: string | symbol | undefined, index?: number): void => {
+        if (typeof(index) === "number") {
+            if (typeof(key) !== "undefined") {
+                throw new Error(`Cannot inject into method parameter "${String(key)}"`);
+            }
+            ownMetadata(target as Typing.Constructor).args[index] = token;
+            return;
+        }
+        ownMetadata(target.constructor as Typing.Constructor).props[key as string] = token;
+    };
+}
+
+@Typing.register("@saggitarius/di/decorators::InjectionResolver")
+export class InjectionResolver implements IDefinitionResolver {
+    public async resolve<T>(ctx: Context, def: Type<T> | Definition<T>): Promise<Definition.Provision<T>> {
+        return this.resolveSync(ctx, def);
+    }
+
+    public resolveSync<T>(ctx: Context, def: Type<T> | Definition<T>): Definition.Provision<T> {
+        if (!Definition.isType(def) || def.decorated) {
+            return def as Definition.Provision<T>;
+        }
+        const ctor = def.class || injectables.get(def.type);
+        const meta = ctor && collectMetadata(ctor);
+        if (!ctor || (!meta && !injectables.has(def.type))) {
+            return def;
+        }
+        const args = meta ? [...meta.args] : [];
+        (def.args || []).forEach((arg, index) => {
+            if (typeof(arg) !== "undefined") {
+                args[index] = arg;
+            }
+        });
+        return {
+            ...def,
+            factory: def.factory || ((...params: unknown[]) => new ctor(...params) as T),
+            args,
+            props: {...(meta && meta.props), ...def.props},
+        };
+    }
+}
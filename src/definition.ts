@@ -1,6 +1,6 @@
 /// <reference path="global.d.ts" />
-import "@saggitarius/typing";
-import { Dependency } from "./api"; 
+import { Typing } from "@saggitarius/typing";
+import { BindingCondition, Dependency, IInterceptor } from "./api"; 
 
 export namespace Definition {
 
@@ -10,6 +10,21 @@ export namespace Definition {
         Array = "array",
         Record = "record",
         Reference = "reference",
+        Parameter = "parameter",
+        Provider = "provider",
+        Factory = "factory",
+        Lazy = "lazy",
+        Optional = "optional",
+        Conditional = "conditional",
+        Multi = "multi",
+        Collection = "collection",
+        Config = "config",
+    }
+
+    export enum CollectionFormat {
+        Array = "array",
+        Record = "record",
+        Iterator = "iterator",
     }
     export interface Value<T = unknown> {
         kind: Kind.Value;
@@ -29,18 +44,108 @@ export namespace Definition {
     export interface Type<T = unknown> {
         kind: Kind.Type;
         type: globalThis.Type<T>;
-        shared?: boolean;
-        factory?: AsyncFactory<T>;
+        class?: Typing.Constructor<T>;
+        scope?: string;
+        dispose?: (instance: T) => void | Promise<void>;
+        activators?: globalThis.Array<(instance: T) => void | Promise<void>>;
+        factory?: (...args: unknown[]) => T | Promise<T>;
         args?: globalThis.Array<Dependency | undefined>;
         props?: globalThis.Record<string, Dependency | undefined>;
+        interceptors?: globalThis.Array<Dependency<IInterceptor>>;
+        decorated?: Definition<T>;
+        origin?: Type<T>;
     }
 
     export interface Reference<T = unknown> {
         kind: Kind.Reference;
         target: globalThis.Type<T>;
+        tags?: globalThis.Record<string, unknown>;
+    }
+
+    export interface Parameter<T = unknown> {
+        kind: Kind.Parameter;
+        name: string;
+        optional?: boolean;
+        default?: T;
+    }
+
+    export interface Provider<T = unknown> {
+        kind: Kind.Provider;
+        target: Dependency<T>;
+    }
+
+    export interface Factory<T = unknown> {
+        kind: Kind.Factory;
+        target: Dependency<T>;
+    }
+
+    export interface Lazy<T = unknown> {
+        kind: Kind.Lazy;
+        target: Dependency<T>;
+    }
+
+    export interface Optional<T = unknown> {
+        kind: Kind.Optional;
+        target: Dependency<T>;
+        default?: T;
+    }
+
+    export interface Candidate<T = unknown> {
+        conditions: globalThis.Array<BindingCondition>;
+        definition: Definition<T>;
+    }
+
+    export interface Conditional<T = unknown> {
+        kind: Kind.Conditional;
+        type: globalThis.Type<T>;
+        candidates: globalThis.Array<Candidate<T>>;
+        fallback: Definition<T>;
+    }
+
+    export interface Member<T = unknown> {
+        dependency: Dependency<T>;
+        priority: number;
+        name?: string;
+    }
+
+    export interface Multi<T = unknown> {
+        kind: Kind.Multi;
+        type: globalThis.Type<T>;
+        members: globalThis.Array<Member<T>>;
+    }
+
+    export interface Collection<T = unknown> {
+        kind: Kind.Collection;
+        target: globalThis.Type<T>;
+        format: CollectionFormat;
     }
 
-    export type Provision<T = unknown> = Value<T> | Array<T> | Record<T> | Type<T>;
+    export type ConfigType = "string" | "number" | "boolean" | "json" | "section";
+
+    export interface Config<T = unknown> {
+        kind: Kind.Config;
+        key: string;
+        type?: ConfigType;
+        optional?: boolean;
+        default?: T;
+    }
+
+    export interface ParameterOptions<T = unknown> {
+        optional?: boolean;
+        default?: T;
+    }
+
+    export interface ConfigOptions<T = unknown> {
+        type?: ConfigType;
+        optional?: boolean;
+        default?: T;
+    }
+
+    export const NameTag = "name";
+
+    export type Provision<T = unknown> = Value<T> | Array<T> | Record<T> | Type<T> 
+        | Parameter<T> | Provider<T> | Factory<T> | Lazy<T> | Optional<T>
+        | Multi<T> | Collection<T> | Config<T>;
 
     export function makeValue<T>(value: T): Value<T> {
         return {kind: Kind.Value, value};
@@ -54,6 +159,26 @@ export namespace Definition {
         return {kind: Kind.Reference, target};
     }
 
+    export function makeTagged<T>(target: globalThis.Type<T>, tags: globalThis.Record<string, unknown>): Reference<T> {
+        return {kind: Kind.Reference, target, tags};
+    }
+
+    export function makeNamed<T>(target: globalThis.Type<T>, name: string): Reference<T> {
+        return makeTagged(target, {[NameTag]: name});
+    }
+
+    export function makeConditional<T>(type: globalThis.Type<T>, fallback: Definition<T>): Conditional<T> {
+        return {kind: Kind.Conditional, type, candidates: [], fallback};
+    }
+
+    export function makeMulti<T>(type: globalThis.Type<T>, members: globalThis.Array<Member<T>> = []): Multi<T> {
+        return {kind: Kind.Multi, type, members};
+    }
+
+    export function makeCollection<T>(target: globalThis.Type<T>, format = CollectionFormat.Array): Collection<T> {
+        return {kind: Kind.Collection, target, format};
+    }
+
     export function makeArray<T>(elements: globalThis.Array<Dependency<T> | undefined>): Array<T> {
         return {kind: Kind.Array, elements};
     }
@@ -62,8 +187,70 @@ export namespace Definition {
         return {kind: Kind.Record, elements};
     }
 
+    export function makeParameter<T>(name: string, options: ParameterOptions<T> = {}): Parameter<T> {
+        return {kind: Kind.Parameter, name, ...options};
+    }
+
+    export function makeConfig<T>(key: string, options: ConfigOptions<T> = {}): Config<T> {
+        return {kind: Kind.Config, key, ...options};
+    }
+
+    export function makeConfigSection<T>(key: string, schema: {[P in keyof T]: ConfigOptions<T[P]>}): Record<T[keyof T]> {
+        const elements = {};
+        for (const name of Object.keys(schema)) {
+            elements[name] = makeConfig(`${key}.${name}`, schema[name]);
+        }
+        return makeRecord(elements);
+    }
+
+    export function makeProvider<T>(target: Dependency<T>): Provider<T> {
+        return {kind: Kind.Provider, target};
+    }
+
+    export function makeFactory<T>(target: Dependency<T>): Factory<T> {
+        return {kind: Kind.Factory, target};
+    }
+
+    export function makeLazy<T>(target: Dependency<T>): Lazy<T> {
+        return {kind: Kind.Lazy, target};
+    }
+
+    export function makeOptional<T>(target: Dependency<T>, value?: T): Optional<T> {
+        return {kind: Kind.Optional, target, default: value};
+    }
+
+    export function clone<T>(def: Definition<T>): Definition<T> {
+        const copy = {...def};
+        if (isArray(copy) && copy.elements) {
+            copy.elements = [...copy.elements];
+        }
+        if (isRecord(copy) && copy.elements) {
+            copy.elements = {...copy.elements};
+        }
+        if (isType(copy)) {
+            copy.args = copy.args && [...copy.args];
+            copy.props = copy.props && {...copy.props};
+            copy.activators = copy.activators && [...copy.activators];
+            copy.interceptors = copy.interceptors && [...copy.interceptors];
+            copy.decorated = copy.decorated && clone(copy.decorated);
+        }
+        if (isConditional(copy)) {
+            copy.candidates = copy.candidates.map((candidate) => ({
+                conditions: [...candidate.conditions],
+                definition: clone(candidate.definition),
+            }));
+            copy.fallback = clone(copy.fallback);
+        }
+        if (isMulti(copy)) {
+            copy.members = copy.members.map((member) => ({...member}));
+        }
+        return copy;
+    }
+
+    const Kinds: string[] = Object.values(Kind);
+
     export function isDefinition(v: unknown): v is Definition<unknown> {
-        return typeof(v) === "object" && Object.values(Kind).includes(v["kind"]);
+        return typeof(v) === "object" && Kinds.includes(v["kind"]);
     }
 
     export function isValue(v: unknown): v is Value<unknown> {
@@ -85,9 +272,55 @@ export namespace Definition {
     export function isReference(v: unknown): v is Reference<unknown> {
         return typeof(v) === "object" && v["kind"] === Kind.Reference;
     }
+
+    export function isParameter(v: unknown): v is Parameter<unknown> {
+        return typeof(v) === "object" && v["kind"] === Kind.Parameter;
+    }
+
+    export function isProvider(v: unknown): v is Provider<unknown> {
+        return typeof(v) === "object" && v["kind"] === Kind.Provider;
+    }
+
+    export function isFactory(v: unknown): v is Factory<unknown> {
+        return typeof(v) === "object" && v["kind"] === Kind.Factory;
+    }
+
+    export function isLazy(v: unknown): v is Lazy<unknown> {
+        return typeof(v) === "object" && v["kind"] === Kind.Lazy;
+    }
+
+    export function isOptional(v: unknown): v is Optional<unknown> {
+        return typeof(v) === "object" && v["kind"] === Kind.Optional;
+    }
+
+    export function isConditional(v: unknown): v is Conditional<unknown> {
+        return typeof(v) === "object" && v["kind"] === Kind.Conditional;
+    }
+
+    export function isMulti(v: unknown): v is Multi<unknown> {
+        return typeof(v) === "object" && v["kind"] === Kind.Multi;
+    }
+
+    export function isCollection(v: unknown): v is Collection<unknown> {
+        return typeof(v) === "object" && v["kind"] === Kind.Collection;
+    }
+
+    export function isConfig(v: unknown): v is Config<unknown> {
+        return typeof(v) === "object" && v["kind"] === Kind.Config;
+    }
 }
 
 export type Definition<T = unknown> = Definition.Value<T> 
     | Definition.Array<T> | Definition.Record<T> 
-    | Definition.Type<T> | Definition.Reference<T>; 
+    | Definition.Type<T> | Definition.Reference<T>
+    | Definition.Parameter<T> | Definition.Provider<T>
+    | Definition.Factory<T> | Definition.Lazy<T>
+    | Definition.Optional<T> | Definition.Conditional<T>
+    | Definition.Multi<T> | Definition.Collection<T>
+    | Definition.Config<T>;
+
+export function lazy<T>(target: Dependency<T>): Definition.Lazy<T> {
+    return Definition.makeLazy(target);
+}
+
 
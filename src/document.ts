@@ -0,0 +1,385 @@
+import { Typing } from "@saggitarius/typing";
+import {
+    ContainerDocument,
+    Dependency,
+    DocumentDefinition,
+    DocumentExport,
+    DocumentNode,
+    IClassBinding,
+    IContainerModule,
+    IDependencyManager,
+    IInterceptor,
+} from "./api";
+import { injectableOf } from "./decorators";
+import { Definition } from "./definition";
+import { DefinitionRegistry } from "./lib";
+
+const InternalPrefixes = ["@saggitarius/di::", "@saggitarius/di/"];
+
+export interface DocumentModuleOptions {
+    name?: string;
+    classes?: Typing.Constructor[];
+}
+
+export function parseDocument(text: string, parse: (text: string) => unknown = JSON.parse, source = "document"): ContainerDocument {
+    let document: unknown;
+    try {
+        document = parse(text);
+    } catch (err) {
+        throw new Error(`Cannot load ${source}: ${err instanceof Error ? err.message : err}`);
+    }
+    if (!isObject(document) || !isObject(document["bindings"])) {
+        throw new Error(`Invalid ${source}: missing "bindings" object`);
+    }
+    return document as unknown as ContainerDocument;
+}
+
+export class DocumentModule implements IContainerModule {
+    public readonly name?: string;
+    private classes = new Map<Type, Typing.Constructor>();
+
+    public constructor(
+        private document: ContainerDocument,
+        options: DocumentModuleOptions = {},
+    ) {
+        this.name = options.name;
+        for (const ctor of options.classes || []) {
+            this.classes.set(Typing.type(ctor), ctor);
+        }
+    }
+
+    public register(bind: IDependencyManager["bind"]): void {
+        for (const [name, node] of Object.entries(this.document.bindings || {})) {
+            const type = Typing.type(name);
+            const path = `bindings.${name}`;
+            const binding = bind(type);
+            binding.toDefinition(typeof(node) === "string"
+                ? Definition.makeReference(Typing.type(node))
+                : this.definition(node, path, type));
+            if (isObject(node) && node.kind === Definition.Kind.Type) {
+                for (const [index, tag] of this.list(node.tags, `${path}.tags`).entries()) {
+                    const options: Record<string, unknown> = typeof(tag) === "string"
+                        ? {type: tag}
+                        : this.object(tag, `${path}.tags.${index}`);
+                    (binding as unknown as IClassBinding).tag(this.string(options.type, `${path}.tags.${index}.type`), {
+                        priority: options.priority as number | undefined,
+                        name: options.name as string | undefined,
+                    });
+                }
+            }
+        }
+    }
+
+    private dependency(node: unknown, path: string): Dependency | undefined {
+        if (node === null || typeof(node) === "undefined") {
+            return undefined;
+        }
+        if (typeof(node) === "string") {
+            return Typing.type(node);
+        }
+        return this.definition(node, path);
+    }
+
+    private definition(node: unknown, path: string, type?: Type): Definition {
+        const def = this.object(node, path);
+        switch (def.kind) {
+            case Definition.Kind.Value:
+                return Definition.makeValue(def.value);
+            case Definition.Kind.Type:
+                return this.type(def, path, type);
+            case Definition.Kind.Array:
+                return Definition.makeArray(this.list(def.elements, `${path}.elements`)
+                    .map((elem, index) => this.dependency(elem, `${path}.elements.${index}`)));
+            case Definition.Kind.Record:
+                return Definition.makeRecord(this.record(def.elements, `${path}.elements`));
+            case Definition.Kind.Reference:
+                return def.tags
+                    ? Definition.makeTagged(this.typeOf(def.target, `${path}.target`), this.object(def.tags, `${path}.tags`))
+                    : Definition.makeReference(this.typeOf(def.target, `${path}.target`));
+            case Definition.Kind.Parameter:
+                return Definition.makeParameter(this.string(def.name, `${path}.name`), this.options(def, ["optional", "default"]));
+            case Definition.Kind.Provider:
+                return Definition.makeProvider(this.target(def, path));
+            case Definition.Kind.Factory:
+                return Definition.makeFactory(this.target(def, path));
+            case Definition.Kind.Lazy:
+                return Definition.makeLazy(this.target(def, path));
+            case Definition.Kind.Optional:
+                return Definition.makeOptional(this.target(def, path), def.default);
+            case Definition.Kind.Multi:
+                return Definition.makeMulti(def.type ? this.typeOf(def.type, `${path}.type`) : this.required(type, path),
+                    this.list(def.members, `${path}.members`).map((item, index) => this.member(item, `${path}.members.${index}`)));
+            case Definition.Kind.Collection:
+                return Definition.makeCollection(this.typeOf(def.target, `${path}.target`),
+                    (def.format || Definition.CollectionFormat.Array) as Definition.CollectionFormat);
+            case Definition.Kind.Config:
+                return Definition.makeConfig(this.string(def.key, `${path}.key`), this.options(def, ["type", "optional", "default"]));
+        }
+        throw new Error(`Unsupported definition kind "${def.kind}" at ${path}`);
+    }
+
+    private type(node: DocumentDefinition, path: string, type?: Type): Definition.Type {
+        const def = Definition.makeType(node.type ? this.typeOf(node.type, `${path}.type`) : this.required(type, path));
+        if (node.class) {
+            const ctor = this.classOf(this.string(node.class, `${path}.class`), `${path}.class`);
+            def.class = ctor;
+            def.factory = (...args: unknown[]) => new ctor(...args);
+        }
+        if (node.scope) {
+            def.scope = this.string(node.scope, `${path}.scope`);
+        }
+        if (node.args) {
+            def.args = this.list(node.args, `${path}.args`)
+                .map((arg, index) => this.dependency(arg, `${path}.args.${index}`));
+        }
+        if (node.props) {
+            def.props = this.record(node.props, `${path}.props`);
+        }
+        if (node.interceptors) {
+            def.interceptors = this.list(node.interceptors, `${path}.interceptors`)
+                .map((item, index) => this.required(this.dependency(item, `${path}.interceptors.${index}`), `${path}.interceptors.${index}`))
+                .map((item) => item as Dependency<IInterceptor>);
+        }
+        return def;
+    }
+
+    private member(node: unknown, path: string): Definition.Member {
+        const member = this.object(node, path);
+        return {
+            dependency: this.required(this.dependency(member.dependency, `${path}.dependency`), `${path}.dependency`),
+            priority: typeof(member.priority) === "number" ? member.priority : 0,
+            ...this.options(member, ["name"]),
+        };
+    }
+
+    private target(node: DocumentDefinition, path: string): Dependency {
+        return this.required(this.dependency(node.target, `${path}.target`), `${path}.target`);
+    }
+
+    private record(node: unknown, path: string): Record<string, Dependency | undefined> {
+        const elements = {};
+        for (const [key, value] of Object.entries(this.object(node, path))) {
+            elements[key] = this.dependency(value, `${path}.${key}`);
+        }
+        return elements;
+    }
+
+    private options<T>(node: DocumentDefinition, keys: string[]): T {
+        const options = {};
+        for (const key of keys.filter((item) => Object.prototype.hasOwnProperty.call(node, item))) {
+            options[key] = node[key];
+        }
+        return options as T;
+    }
+
+    private classOf(name: string, path: string): Typing.Constructor {
+        const type = Typing.type(name);
+        const ctor = this.classes.get(type) || injectableOf(type);
+        if (!ctor) {
+            throw new Error(`Unknown class "${name}" at ${path}`);
+        }
+        return ctor;
+    }
+
+    private typeOf(node: unknown, path: string): Type {
+        return Typing.type(this.string(node, path));
+    }
+
+    private required<T>(value: T | undefined, path: string): T {
+        if (typeof(value) === "undefined") {
+            throw new Error(`Missing dependency at ${path}`);
+        }
+        return value;
+    }
+
+    private string(node: unknown, path: string): string {
+        if (typeof(node) !== "string") {
+            throw new Error(`Expected string at ${path}`);
+        }
+        return node;
+    }
+
+    private list(node: unknown, path: string): unknown[] {
+        if (typeof(node) === "undefined") {
+            return [];
+        }
+        if (!Array.isArray(node)) {
+            throw new Error(`Expected array at ${path}`);
+        }
+        return node;
+    }
+
+    private object(node: unknown, path: string): DocumentDefinition {
+        if (!isObject(node)) {
+            throw new Error(`Expected object at ${path}`);
+        }
+        return node as DocumentDefinition;
+    }
+}
+
+class UnsupportedError extends Error {}
+
+class DocumentBuilder {
+    private skipped: string[] = [];
+
+    public constructor(
+        private definitions: Map<Type, Definition>,
+    ) {}
+
+    public build(): DocumentExport {
+        const bindings: Record<string, DocumentNode> = {};
+        const entries = [...this.definitions]
+            .map(([type, def]) => [Typing.nameOf(type), def] as [string, Definition])
+            .filter(([name, def]) => !this.isInternal(name) && !this.isStub(def))
+            .sort(([a], [b]) => a.localeCompare(b));
+        for (const [name, def] of entries) {
+            try {
+                bindings[name] = this.definition(def, name);
+            } catch (err) {
+                if (!(err instanceof UnsupportedError)) {
+                    throw err;
+                }
+                this.skipped.push(`${name}: ${err.message}`);
+            }
+        }
+        return {
+            document: {bindings},
+            skipped: this.skipped,
+        };
+    }
+
+    private node(dep: Dependency | undefined): DocumentNode {
+        if (typeof(dep) === "undefined") {
+            return null;
+        }
+        if (!Definition.isDefinition(dep)) {
+            return Typing.nameOf(Typing.type(dep));
+        }
+        return this.definition(dep);
+    }
+
+    private definition(def: Definition, binding?: string): DocumentDefinition {
+        switch (def.kind) {
+            case Definition.Kind.Value:
+                return {kind: def.kind, value: this.json(def.value)};
+            case Definition.Kind.Type:
+                return this.type(def, binding);
+            case Definition.Kind.Array:
+                return {kind: def.kind, elements: (def.elements || []).map((elem) => this.node(elem))};
+            case Definition.Kind.Record:
+                return {kind: def.kind, elements: this.record(def.elements || {})};
+            case Definition.Kind.Reference:
+                return compact({kind: def.kind, target: Typing.nameOf(def.target), tags: this.json(def.tags)});
+            case Definition.Kind.Parameter:
+                return compact({kind: def.kind, name: def.name, optional: def.optional, default: this.json(def.default)});
+            case Definition.Kind.Provider:
+            case Definition.Kind.Factory:
+            case Definition.Kind.Lazy:
+                return {kind: def.kind, target: this.node(def.target)};
+            case Definition.Kind.Optional:
+                return compact({kind: def.kind, target: this.node(def.target), default: this.json(def.default)});
+            case Definition.Kind.Multi:
+                return compact({
+                    kind: def.kind,
+                    type: this.typeName(def.type, binding),
+                    members: def.members.map((member) => compact({
+                        dependency: this.node(member.dependency),
+                        priority: member.priority,
+                        name: member.name,
+                    })),
+                });
+            case Definition.Kind.Collection:
+                return {kind: def.kind, target: Typing.nameOf(def.target), format: def.format};
+            case Definition.Kind.Config:
+                return compact({kind: def.kind, key: def.key, type: def.type, optional: def.optional, default: this.json(def.default)});
+        }
+        throw new UnsupportedError(`${def.kind} definitions cannot be exported`);
+    }
+
+    private type(def: Definition.Type, binding?: string): DocumentDefinition {
+        if (def.decorated) {
+            throw new UnsupportedError("decorated bindings cannot be exported");
+        }
+        if (def.dispose || (def.activators || []).length > 0) {
+            throw new UnsupportedError("lifecycle callbacks cannot be exported");
+        }
+        if (def.factory && !def.class) {
+            throw new UnsupportedError("factory functions cannot be exported");
+        }
+        return compact({
+            kind: def.kind,
+            type: this.typeName(def.type, binding),
+            class: def.class && Typing.nameOf(Typing.type(def.class)),
+            scope: def.scope,
+            args: def.args && def.args.map((arg) => this.node(arg)),
+            props: def.props && this.record(def.props),
+            interceptors: def.interceptors && def.interceptors.map((item) => this.node(item)),
+        });
+    }
+
+    private record(elements: Record<string, Dependency | undefined>): Record<string, DocumentNode> {
+        const result = {};
+        for (const [key, elem] of Object.entries(elements)) {
+            result[key] = this.node(elem);
+        }
+        return result;
+    }
+
+    private typeName(type: Type, binding?: string): string | undefined {
+        const name = Typing.nameOf(type);
+        return name === binding ? undefined : name;
+    }
+
+    private json<T>(value: T): T {
+        if (!isJson(value)) {
+            throw new UnsupportedError(`${typeof(value)} values cannot be exported`);
+        }
+        return value;
+    }
+
+    private isInternal(name: string): boolean {
+        return InternalPrefixes.some((prefix) => name.startsWith(prefix));
+    }
+
+    private isStub(def: Definition): boolean {
+        return Definition.isType(def) && !def.factory && !def.args && !def.props && !def.scope;
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof(value) === "object" && value !== null && !Array.isArray(value);
+}
+
+function isJson(value: unknown): boolean {
+    switch (typeof(value)) {
+        case "undefined":
+        case "string":
+        case "boolean":
+            return true;
+        case "number":
+            return isFinite(value as number);
+        case "object":
+            if (value === null) {
+                return true;
+            }
+            if (Array.isArray(value)) {
+                return value.every((item) => isJson(item));
+            }
+            return [Object.prototype, null].includes(Object.getPrototypeOf(value))
+                && Object.values(value).every((item) => isJson(item));
+    }
+    return false;
+}
+
+function compact<T extends object>(value: T): T {
+    for (const key of Object.keys(value)) {
+        if (typeof(value[key]) === "undefined") {
+            delete value[key];
+        }
+    }
+    return value;
+}
+
+export function buildDocument(registry: DefinitionRegistry): DocumentExport {
+    return new DocumentBuilder(registry.flatten()).build();
+}
@@ -0,0 +1,127 @@
+import { Typing } from "@saggitarius/typing";
+import { Dependency } from "./api";
+import { Definition } from "./definition";
+
+export function renderDependency(dep: Dependency | undefined): string {
+    if (typeof(dep) === "undefined") {
+        return "<unknown>";
+    }
+    if (Definition.isArray(dep)) {
+        const elems = (dep.elements || [])
+            .map((elem) => renderDependency(elem))
+            .join(", ");
+        return `Array<${elems}>`;
+    }
+    if (Definition.isRecord(dep)) {
+        const elems = Object.entries(dep.elements || {})
+            .map(([key, elem]) => `[${key}]: ${renderDependency(elem)}`)
+            .join(", ");
+        return `Record<${elems}>`;
+    }
+    if (Definition.isType(dep)) {
+        return `Type<${Typing.nameOf(dep.type)}>`;
+    }
+    if (Definition.isReference(dep)) {
+        const tags = Object.entries(dep.tags || {})
+            .map(([key, value]) => ` ${key}=${JSON.stringify(value)}`)
+            .join("");
+        return `Reference<${Typing.nameOf(dep.target)}${tags}>`;
+    }
+    if (Definition.isValue(dep)) {
+        return `Value<${typeof(dep.value)}>`;
+    }
+    if (Definition.isParameter(dep)) {
+        return `Parameter<${dep.name}>`;
+    }
+    if (Definition.isProvider(dep)) {
+        return `Provider<${renderDependency(dep.target)}>`;
+    }
+    if (Definition.isFactory(dep)) {
+        return `Factory<${renderDependency(dep.target)}>`;
+    }
+    if (Definition.isLazy(dep)) {
+        return `Lazy<${renderDependency(dep.target)}>`;
+    }
+    if (Definition.isOptional(dep)) {
+        return `Optional<${renderDependency(dep.target)}>`;
+    }
+    if (Definition.isMulti(dep)) {
+        return `Multi<${Typing.nameOf(dep.type)}>`;
+    }
+    if (Definition.isCollection(dep)) {
+        return `Collection<${Typing.nameOf(dep.target)}, ${dep.format}>`;
+    }
+    if (Definition.isConfig(dep)) {
+        return `Config<${dep.key}>`;
+    }
+    if (Definition.isConditional(dep)) {
+        return `Conditional<${Typing.nameOf(dep.type)}>`;
+    }
+    return Typing.nameOf(Typing.type(dep));
+}
+
+export function renderPath(path: Dependency[]): string {
+    return path
+        .map((dep) => Definition.isType(dep) ? Typing.nameOf(dep.type) : renderDependency(dep))
+        .join(" -> ");
+}
+
+export class ResolutionError extends Error {
+    public readonly path: Dependency[];
+
+    public constructor(
+        message: string,
+        public readonly dependency: Dependency | undefined,
+        chain: Dependency[] = [],
+        public readonly cause?: unknown,
+    ) {
+        super();
+        this.name = "ResolutionError";
+        this.path = chain[chain.length - 1] === dependency ? [...chain] : [...chain, dependency];
+        this.message = `${message} (${renderPath(this.path)})`;
+    }
+}
+
+export class CyclicDependencyError extends ResolutionError {
+    public constructor(dependency: Dependency, chain: Dependency[]) {
+        super("Cyclic dependency", dependency, chain);
+        this.name = "CyclicDependencyError";
+    }
+}
+
+export class MissingBindingError extends ResolutionError {
+    public constructor(dependency: Dependency, chain: Dependency[], message = "Missing binding") {
+        super(message, dependency, chain);
+        this.name = "MissingBindingError";
+    }
+}
+
+export class AmbiguousBindingError extends ResolutionError {
+    public constructor(dependency: Dependency, public readonly candidates: number, chain: Dependency[]) {
+        super(`Ambiguous binding, ${candidates} candidates match`, dependency, chain);
+        this.name = "AmbiguousBindingError";
+    }
+}
+
+export class AsyncResolutionError extends ResolutionError {
+    public constructor(message: string, dependency: Dependency, chain: Dependency[]) {
+        super(`${message}, use asynchronous resolution instead`, dependency, chain);
+        this.name = "AsyncResolutionError";
+    }
+}
+
+export class ConfigError extends ResolutionError {
+    public constructor(message: string, dependency: Dependency, chain: Dependency[], cause?: unknown) {
+        super(message, dependency, chain, cause);
+        this.name = "ConfigError";
+    }
+}
+
+export class DisposalError extends Error {
+    public constructor(
+        public readonly errors: unknown[],
+    ) {
+        super(`Failed to dispose ${errors.length} instance(s)`);
+        this.name = "DisposalError";
+    }
+}
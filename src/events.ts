@@ -0,0 +1,39 @@
+import { Typing } from "@saggitarius/typing";
+import {
+    IResolutionEvents,
+    ResolutionEvent,
+    ResolutionEventKind,
+    ResolutionListener,
+} from "./api";
+
+@Typing.register("@saggitarius/di/events::ResolutionEvents")
+export class ResolutionEvents implements IResolutionEvents {
+    private listeners = new Map<ResolutionEventKind, Array<ResolutionListener>>();
+
+    public on(kind: ResolutionEventKind, listener: ResolutionListener): void {
+        const listeners = this.listeners.get(kind) || [];
+        if (!listeners.includes(listener)) {
+            this.listeners.set(kind, [...listeners, listener]);
+        }
+    }
+
+    public off(kind: ResolutionEventKind, listener: ResolutionListener): void {
+        const listeners = (this.listeners.get(kind) || [])
+            .filter((item) => item !== listener);
+        if (listeners.length > 0) {
+            this.listeners.set(kind, listeners);
+        } else {
+            this.listeners.delete(kind);
+        }
+    }
+
+    public has(kind: ResolutionEventKind): boolean {
+        return this.listeners.has(kind);
+    }
+
+    public emit(event: ResolutionEvent): void {
+        for (const listener of this.listeners.get(event.kind) || []) {
+            listener(event);
+        }
+    }
+}
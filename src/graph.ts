@@ -0,0 +1,159 @@
+import { Typing } from "@saggitarius/typing";
+import { Dependency, DependencyGraph, GraphEdgeKind, GraphNode } from "./api";
+import { Definition } from "./definition";
+import { renderDependency } from "./errors";
+import { DefinitionRegistry } from "./lib";
+
+const NodeShapes: Record<string, string> = {
+    [Definition.Kind.Type]: "box",
+    [Definition.Kind.Value]: "note",
+    [Definition.Kind.Array]: "folder",
+    [Definition.Kind.Record]: "folder",
+    [Definition.Kind.Reference]: "ellipse",
+    [Definition.Kind.Multi]: "folder",
+    [Definition.Kind.Conditional]: "diamond",
+    unbound: "box",
+};
+
+const EdgeStyles: Record<string, string> = {
+    [GraphEdgeKind.Argument]: "solid",
+    [GraphEdgeKind.Property]: "dashed",
+    [GraphEdgeKind.Element]: "solid",
+    [GraphEdgeKind.Alias]: "bold",
+    [GraphEdgeKind.Tag]: "dotted",
+    [GraphEdgeKind.Target]: "dashed",
+    [GraphEdgeKind.Decorated]: "bold",
+    [GraphEdgeKind.Candidate]: "dotted",
+};
+
+class GraphBuilder {
+    private nodes = new Map<string, GraphNode>();
+    private edges: DependencyGraph["edges"] = [];
+    private names = new Map<Definition, string>();
+
+    public constructor(
+        private definitions: Map<Type, Definition>,
+    ) {
+        for (const [type, def] of definitions) {
+            this.names.set(def, Typing.nameOf(type));
+        }
+    }
+
+    public build(): DependencyGraph {
+        const entries = [...this.definitions]
+            .map(([type, def]) => [Typing.nameOf(type), def] as [string, Definition])
+            .sort(([a], [b]) => a.localeCompare(b));
+        for (const [name, def] of entries) {
+            this.addDefinition(name, name, def);
+        }
+        return {
+            nodes: [...this.nodes.values()].sort((a, b) => a.id.localeCompare(b.id)),
+            edges: this.edges.sort((a, b) => a.from.localeCompare(b.from)
+                || a.kind.localeCompare(b.kind)
+                || (a.label || "").localeCompare(b.label || "", undefined, {numeric: true})
+                || a.to.localeCompare(b.to)),
+        };
+    }
+
+    private addDefinition(id: string, label: string, def: Definition): void {
+        if (this.nodes.has(id)) {
+            return;
+        }
+        const node: GraphNode = {id, kind: def.kind, label};
+        if (Definition.isType(def)) {
+            node.scope = def.scope;
+        }
+        this.nodes.set(id, node);
+
+        if (Definition.isType(def)) {
+            this.addEdge(id, def.decorated, GraphEdgeKind.Decorated);
+            (def.args || []).forEach((arg, index) => {
+                this.addEdge(id, arg, GraphEdgeKind.Argument, `${index}`);
+            });
+            for (const [key, prop] of Object.entries(def.props || {})) {
+                this.addEdge(id, prop, GraphEdgeKind.Property, key);
+            }
+        } else if (Definition.isArray(def)) {
+            (def.elements || []).forEach((elem, index) => {
+                const tagged = Definition.isDefinition(elem) && this.names.has(elem);
+                this.addEdge(id, elem, tagged ? GraphEdgeKind.Tag : GraphEdgeKind.Element, `${index}`);
+            });
+        } else if (Definition.isMulti(def)) {
+            def.members.forEach((member, index) => {
+                this.addEdge(id, member.dependency, GraphEdgeKind.Tag, member.name || `${index}`);
+            });
+        } else if (Definition.isCollection(def)) {
+            this.addEdge(id, def.target, GraphEdgeKind.Target, def.format);
+        } else if (Definition.isRecord(def)) {
+            for (const [key, elem] of Object.entries(def.elements || {})) {
+                this.addEdge(id, elem, GraphEdgeKind.Element, key);
+            }
+        } else if (Definition.isReference(def)) {
+            this.addEdge(id, def.target, GraphEdgeKind.Alias);
+        } else if (Definition.isConditional(def)) {
+            def.candidates.forEach((candidate, index) => {
+                this.addEdge(id, candidate.definition, GraphEdgeKind.Candidate, `${index}`);
+            });
+            this.addEdge(id, def.fallback, GraphEdgeKind.Candidate, "default");
+        } else if (Definition.isLazy(def) || Definition.isProvider(def)
+            || Definition.isFactory(def) || Definition.isOptional(def)) {
+            this.addEdge(id, def.target, GraphEdgeKind.Target);
+        }
+    }
+
+    private addEdge(from: string, dep: Dependency | undefined, kind: GraphEdgeKind, label?: string): void {
+        if (typeof(dep) === "undefined") {
+            return;
+        }
+        const to = this.nodeOf(dep, label ? `${from}/${kind}/${label}` : `${from}/${kind}`);
+        this.edges.push(label ? {from, to, kind, label} : {from, to, kind});
+    }
+
+    private nodeOf(dep: Dependency, id: string): string {
+        if (!Definition.isDefinition(dep)) {
+            const type = Typing.type(dep);
+            const name = Typing.nameOf(type);
+            if (!this.definitions.has(type) && !this.nodes.has(name)) {
+                this.nodes.set(name, {id: name, kind: "unbound", label: name});
+            }
+            return name;
+        }
+        if (this.names.has(dep)) {
+            return this.names.get(dep);
+        }
+        this.addDefinition(id, renderDependency(dep), dep);
+        return id;
+    }
+}
+
+function quote(value: string): string {
+    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n")}"`;
+}
+
+export function buildGraph(registry: DefinitionRegistry): DependencyGraph {
+    return new GraphBuilder(registry.flatten()).build();
+}
+
+export function renderDot(graph: DependencyGraph, name = "dependencies"): string {
+    const lines = [`digraph ${quote(name)} {`];
+    for (const node of graph.nodes) {
+        const attrs = [
+            `label=${quote(node.scope ? `${node.label}\n(${node.scope})` : node.label)}`,
+            `shape=${NodeShapes[node.kind] || "ellipse"}`,
+        ];
+        if (node.kind === "unbound") {
+            attrs.push("color=red");
+        }
+        lines.push(`    ${quote(node.id)} [${attrs.join(", ")}];`);
+    }
+    for (const edge of graph.edges) {
+        const label = edge.label ? `${edge.kind} ${edge.label}` : edge.kind;
+        lines.push(`    ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(label)}, style=${EdgeStyles[edge.kind]}];`);
+    }
+    lines.push("}");
+    return lines.join("\n");
+}
+
+export function renderJson(graph: DependencyGraph): string {
+    return JSON.stringify(graph, null, 2);
+}
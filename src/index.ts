@@ -1,4 +1,14 @@
 
 export * from "./api";
 export * from "./definition";
+export * from "./errors";
+export * from "./decorators";
+export * from "./module";
+export * from "./validation";
+export * from "./graph";
+export * from "./events";
+export * from "./interception";
+export * from "./config";
+export * from "./document";
+export * from "./compiler";
 export * from "./bootstrap";
@@ -0,0 +1,79 @@
+import { Typing } from "@saggitarius/typing";
+import {
+    Dependency,
+    IInterceptor,
+    IInterceptorRegistry,
+    InterceptorFilter,
+    Invocation,
+} from "./api";
+import { Definition } from "./definition";
+
+@Typing.register("@saggitarius/di/interception::InterceptorRegistry")
+export class InterceptorRegistry implements IInterceptorRegistry {
+    private entries: Array<[Dependency<IInterceptor>, InterceptorFilter | undefined]> = [];
+
+    public register(interceptor: Dependency<IInterceptor>, filter?: InterceptorFilter): void {
+        this.entries.push([interceptor, filter]);
+    }
+
+    public get(def: Definition.Type): Dependency<IInterceptor>[] {
+        return this.entries
+            .filter(([interceptor, filter]) => !this.isSelf(interceptor, def) && (!filter || filter(def)))
+            .map(([interceptor]) => interceptor);
+    }
+
+    private isSelf(interceptor: Dependency<IInterceptor>, def: Definition.Type): boolean {
+        return Definition.isDefinition(interceptor)
+            ? interceptor === def
+            : Typing.type(interceptor) === def.type;
+    }
+}
+
+type Method = (...args: unknown[]) => unknown;
+
+export function createProxy<T>(instance: T, def: Definition.Type, interceptors: IInterceptor[]): T {
+    if (interceptors.length === 0 || typeof(instance) !== "object" || instance === null) {
+        return instance;
+    }
+    const target = instance as unknown as Record<string, unknown>;
+    const methods = new Map<PropertyKey, [Method, Method]>();
+    const proxy = new Proxy(target, {
+        get: (obj, key, receiver) => {
+            const value = Reflect.get(obj, key, receiver);
+            if (typeof(value) !== "function" || key === "constructor") {
+                return value;
+            }
+            let entry = methods.get(key);
+            if (!entry || entry[0] !== value) {
+                entry = [value, wrapMethod(target, proxy, key, value, def, interceptors)];
+                methods.set(key, entry);
+            }
+            return entry[1];
+        },
+    });
+    return proxy as unknown as T;
+}
+
+function wrapMethod(
+    target: Record<string, unknown>,
+    proxy: Record<string, unknown>,
+    key: PropertyKey,
+    original: Method,
+    def: Definition.Type,
+    interceptors: IInterceptor[],
+): Method {
+    const invoke = (index: number, args: unknown[]): unknown => {
+        if (index >= interceptors.length) {
+            return Reflect.apply(original, proxy, args);
+        }
+        const invocation: Invocation = {
+            instance: target,
+            method: key,
+            dependency: def,
+            args,
+            next: () => invoke(index + 1, invocation.args),
+        };
+        return interceptors[index].intercept(invocation);
+    };
+    return (...args: unknown[]) => invoke(0, args);
+}
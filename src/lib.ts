@@ -1,6 +1,19 @@
 import { Future } from "@saggitarius/future";
 import { Typing } from "@saggitarius/typing";
 import { Definition } from "./definition";
+import { coerceConfig, ObjectConfigSource } from "./config";
+import { buildDocument } from "./document";
+import { buildGraph } from "./graph";
+import { createProxy } from "./interception";
+import { 
+    ResolutionError,
+    CyclicDependencyError,
+    MissingBindingError,
+    AmbiguousBindingError,
+    AsyncResolutionError,
+    ConfigError,
+    DisposalError,
+} from "./errors";
 
 import { 
     Context, 
@@ -16,16 +29,92 @@ import {
     IDefinitionResolver,
     IObjectFactory,
     IObjectProvider,
+    IScopeManager,
+    IContainerModule,
+    IContainerValidator,
+    IResolutionEvents,
+    IInterceptor,
+    IInterceptorRegistry,
+    IConfigRegistry,
+    IConfigSource,
+    IContainerCompiler,
     IDependencyManager, 
+    ValidationReport,
+    DependencyGraph,
+    DocumentExport,
+    ResolutionEventKind,
+    ResolutionListener,
+    InterceptorFilter,
+    ContainerSnapshot,
+    CompiledModule,
+    IMultiBinding,
+    MultiBindingOptions,
+    BindingCondition,
+    BindingContext,
+    Scope,
 } from "./api";
 
 
-export type InstanceRegistry = WeakMap<Definition, Future<unknown>>;
+export class ScopedMap<K, V> extends Map<K, V> {
+    private version = 0;
+
+    public constructor(
+        private parent?: Map<K, V>,
+    ) {
+        super();
+    }
+
+    public get revision(): number {
+        return this.version + (this.parent instanceof ScopedMap ? this.parent.revision : 0);
+    }
+
+    public set(key: K, value: V): this {
+        this.version++;
+        return super.set(key, value);
+    }
+
+    public delete(key: K): boolean {
+        this.version++;
+        return super.delete(key);
+    }
+
+    public clear(): void {
+        this.version++;
+        super.clear();
+    }
+
+    public get(key: K): V | undefined {
+        if (super.has(key) || !this.parent) {
+            return super.get(key);
+        }
+        return this.parent.get(key);
+    }
+
+    public has(key: K): boolean {
+        return super.has(key) || (!!this.parent && this.parent.has(key));
+    }
+
+    public hasOwn(key: K): boolean {
+        return super.has(key);
+    }
+
+    public flatten(): Map<K, V> {
+        const result = this.parent instanceof ScopedMap
+            ? this.parent.flatten()
+            : new Map(this.parent || []);
+        for (const [key, value] of this) {
+            result.set(key, value);
+        }
+        return result;
+    }
+}
+
+export type InstanceRegistry = ScopedMap<Definition, Promise<unknown>>;
 export namespace InstanceRegistry {
     export const Type = Typing.type<InstanceRegistry>("@saggitarius/di/lib::InstanceRegistry");
 }
 
-export type DefinitionRegistry = Map<Type, Definition>;
+export type DefinitionRegistry = ScopedMap<Type, Definition>;
 export namespace DefinitionRegistry {
     export const Type = Typing.type<DefinitionRegistry>("@saggitarius/di/lib::DefinitionRegistry");
 }
@@ -35,65 +124,239 @@ export namespace DefinitionResolvers {
     export const Type = Typing.type<DefinitionResolvers>("@saggitarius/di/lib::DefinitionResolvers");
 }
 
+export type ContainerFactory = (definitions?: DefinitionRegistry, instances?: InstanceRegistry, config?: IConfigSource) => IDependencyManager;
+export namespace ContainerFactory {
+    export const Type = Typing.type<ContainerFactory>("@saggitarius/di/lib::ContainerFactory");
+}
+
+interface ModuleRecord {
+    definitions: Array<[Type, Definition, Definition | undefined]>;
+    tags: Array<[Type, unknown]>;
+}
+
+interface ManagerSnapshot extends ContainerSnapshot {
+    readonly modules: ReadonlyMap<IContainerModule, ModuleRecord>;
+}
+
+function collectionOf(def: Definition): Array<unknown> | undefined {
+    if (Definition.isArray(def)) {
+        return def.elements;
+    }
+    if (Definition.isMulti(def)) {
+        return def.members.map((member) => member.dependency);
+    }
+    return undefined;
+}
+
+function nestedOf(def: Definition): Array<Dependency | undefined> {
+    if (Definition.isType(def)) {
+        return [def.decorated, ...(def.args || []), ...Object.values(def.props || {})];
+    }
+    if (Definition.isArray(def)) {
+        return def.elements || [];
+    }
+    if (Definition.isRecord(def)) {
+        return Object.values(def.elements || {});
+    }
+    if (Definition.isMulti(def)) {
+        return def.members.map((member) => member.dependency);
+    }
+    if (Definition.isConditional(def)) {
+        return [...def.candidates.map((candidate) => candidate.definition), def.fallback];
+    }
+    return [];
+}
+
+function withoutElement(def: Definition, elem: unknown): Definition {
+    const copy = Definition.clone(def);
+    if (Definition.isArray(copy)) {
+        copy.elements = copy.elements.filter((item) => item !== elem);
+    } else if (Definition.isMulti(copy)) {
+        copy.members = copy.members.filter((member) => member.dependency !== elem);
+    }
+    return copy;
+}
+
 interface DiContext extends Context {
     instance?: Future<unknown>;
     registry?: Record<symbol, Future<unknown>>;
 }
 
+class ResolutionContext implements DiContext {
+    public instance?: Future<unknown>;
+    private path?: Dependency[];
 
-function renderDependency(dep: Dependency | undefined): string {
-    if (typeof(dep) === "undefined") {
-        return "<unknown>";
-    }
-    if (Definition.isArray(dep)) {
-        const elems = (dep.elements || [])
-            .map((elem) => renderDependency(elem))
-            .join(", ");
-        return `Array<${elems}>`;
-    }
-    if (Definition.isRecord(dep)) {
-        const elems = Object.entries(dep.elements || {})
-            .map(([key, elem]) => `[${key}]: ${renderDependency(elem)}`)
-            .join(", ");
-        return `Record<${elems}>`;
+    public constructor(
+        private parent: Context,
+        private dependency: Definition,
+        public readonly depth: number,
+        public scope: string | undefined,
+        public parameters: Record<string, unknown> | undefined,
+        public registry: Record<symbol, Future<unknown>> | undefined,
+    ) {}
+
+    public get stack(): Dependency[] {
+        if (!this.path) {
+            this.path = [...(this.parent.stack || []), this.dependency];
+        }
+        return this.path;
     }
-    if (Definition.isType(dep)) {
-        return `Type<${Typing.nameOf(dep.type)}>`;
+}
+
+function depthOf(ctx: Context): number {
+    return ctx instanceof ResolutionContext ? ctx.depth : (ctx.stack || []).length;
+}
+
+function contextOf(ctx: Context): Context {
+    return {stack: ctx.stack, parameters: ctx.parameters};
+}
+
+function isDeferred(dep: Dependency): boolean {
+    return Definition.isProvider(dep) || Definition.isFactory(dep) || Definition.isLazy(dep)
+        || (Definition.isCollection(dep) && dep.format === Definition.CollectionFormat.Iterator);
+}
+
+function isCyclic(stack: Dependency[], dep: Definition): boolean {
+    for (let index = stack.length - 1; index >= 0 && !isDeferred(stack[index]); --index) {
+        if (stack[index] === dep) {
+            return true;
+        }
     }
-    if (Definition.isReference(dep)) {
-        return `Reference<${Typing.nameOf(dep.target)}>`;
+    return false;
+}
+
+const composites = new WeakMap<Definition.Type, [Definition.Array | undefined, Definition.Record | undefined]>();
+
+export function compositesOf(def: Definition.Type): [Definition.Array | undefined, Definition.Record | undefined] {
+    let entry = composites.get(def);
+    if (!entry) {
+        const args = def.decorated ? [def.decorated, ...(def.args || [])] : def.args;
+        entry = [args && Definition.makeArray(args), def.props && Definition.makeRecord(def.props)];
+        composites.set(def, entry);
     }
-    if (Definition.isValue(dep)) {
-        return `Value<${typeof(dep.value)}>`;
+    return entry;
+}
+
+type Pending = Promise<unknown> | Future<unknown>;
+
+const settled = new WeakMap<Pending, unknown>();
+
+export function settle<T>(target: Pending, value: T): T {
+    settled.set(target, value);
+    return value;
+}
+
+function settledValue<T>(target: Pending, dep: Dependency, chain: Dependency[]): T {
+    if (!settled.has(target)) {
+        throw new AsyncResolutionError("Instance is being created asynchronously", dep, chain);
     }
-    return Typing.nameOf(Typing.type(dep));
+    return settled.get(target) as T;
+}
+
+export function instanceKeyOf(def: Definition.Type): Definition.Type {
+    return def.origin || def;
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+    return (typeof(value) === "object" || typeof(value) === "function")
+        && value !== null && typeof(value["then"]) === "function";
 }
 
+
 @Typing.register("@saggitarius/di/lib::DependencyProvider")
 export class DependencyProvider implements IDependencyProvider {
     
-    public provider: IObjectProvider;
-    public factory: IObjectFactory;
+    public scopes: IScopeManager;
 
     public constructor(
         private defResolver: IDefinitionResolver,
+        private events: IResolutionEvents,
+        private config: IConfigRegistry,
     ) {}
 
     public async get<T, P extends T = T>(ctx: DiContext, dep: Dependency<P> | undefined): Promise<T | Array<T> | Record<string, T> | undefined> {
+        if (typeof(dep) === "undefined") {
+            return undefined;
+        }
+        const depth = depthOf(ctx);
+        const start = this.beforeResolve(dep, depth);
         try {
-            if (typeof(dep) === "undefined") {
-                return undefined;
-            }
             const def = await this.getDefinition(ctx, dep);
             const hash = this.hashOf(ctx, def);
+            let instance: T;
             if (ctx.registry && hash && ctx.registry[hash]) {
-                return ctx.registry[hash];
+                this.cacheHit(dep, depth);
+                instance = await ctx.registry[hash] as T;
+            } else {
+                instance = await this.getDependency(ctx, def) as T;
             }
+            return this.afterResolve(dep, depth, start, instance);
+        } catch (err) {
+            this.resolutionFailed(ctx, dep, depth, start, err);
+        }
+    }
 
-            return await this.getDependency(ctx, def)
+    public getSync<T, P extends T = T>(ctx: DiContext, dep: Dependency<P> | undefined): T | Array<T> | Record<string, T> | undefined {
+        if (typeof(dep) === "undefined") {
+            return undefined;
+        }
+        const depth = depthOf(ctx);
+        const start = this.beforeResolve(dep, depth);
+        try {
+            const def = this.getDefinitionSync(ctx, dep);
+            const hash = this.hashOf(ctx, def);
+            let instance: T;
+            if (ctx.registry && hash && ctx.registry[hash]) {
+                this.cacheHit(dep, depth);
+                instance = settledValue(ctx.registry[hash], def, ctx.stack) as T;
+            } else if (Definition.isValue(def) && def.value instanceof Promise) {
+                throw new AsyncResolutionError("Promise value", dep, ctx.stack);
+            } else {
+                instance = this.getDependencySync(ctx, def) as T;
+            }
+            return this.afterResolve(dep, depth, start, instance);
         } catch (err) {
+            this.resolutionFailed(ctx, dep, depth, start, err);
+        }
+    }
+
+    private beforeResolve(dep: Dependency, depth: number): number {
+        if (!this.events.has(ResolutionEventKind.BeforeResolve)
+            && !this.events.has(ResolutionEventKind.AfterResolve)
+            && !this.events.has(ResolutionEventKind.ResolutionFailed)) {
+            return 0;
+        }
+        const time = Date.now();
+        if (this.events.has(ResolutionEventKind.BeforeResolve)) {
+            this.events.emit({kind: ResolutionEventKind.BeforeResolve, dependency: dep, depth, time});
+        }
+        return time;
+    }
+
+    private afterResolve<T>(dep: Dependency, depth: number, start: number, instance: T): T {
+        if (this.events.has(ResolutionEventKind.AfterResolve)) {
+            const time = Date.now();
+            this.events.emit({kind: ResolutionEventKind.AfterResolve, dependency: dep, depth, time, duration: time - start, instance});
+        }
+        return instance;
+    }
+
+    private cacheHit(dep: Dependency, depth: number): void {
+        if (this.events.has(ResolutionEventKind.CacheHit)) {
+            this.events.emit({kind: ResolutionEventKind.CacheHit, dependency: dep, depth, time: Date.now()});
+        }
+    }
+
+    private resolutionFailed(ctx: DiContext, dep: Dependency, depth: number, start: number, err: unknown): never {
+        if (this.events.has(ResolutionEventKind.ResolutionFailed)) {
+            const time = Date.now();
+            this.events.emit({kind: ResolutionEventKind.ResolutionFailed, dependency: dep, depth, time, duration: time - start, error: err});
+        }
+        if (err instanceof ResolutionError) {
             throw err;
         }
+        const message = err instanceof Error ? err.message : String(err);
+        throw new ResolutionError(message, dep, ctx.stack, err);
     }
 
     private hashOf(ctx: DiContext, dep: Dependency): symbol | undefined {
@@ -107,29 +370,38 @@ export class DependencyProvider implements IDependencyProvider {
     }
 
     private forkContext(ctx: DiContext, dep: Definition): DiContext {
+        const depth = depthOf(ctx);
         const stack = ctx.stack || [];
-        const registry = ctx.registry || {};
-        const shared = this.isShared(dep);
-        if (stack.includes(dep)) {
-            throw new Error("Cyclic dependency");
+        if (isCyclic(stack, dep)) {
+            throw new CyclicDependencyError(dep, stack);
         }
-        return {
-            shared,
-            stack: [...stack, dep],
-            registry: {...registry},
-        };
+        const scope = !(ctx instanceof ResolutionContext) && ctx.scope ? ctx.scope : this.scopeOf(dep);
+        const parameters = Definition.isType(dep) && scope !== Scope.Transient ? undefined : ctx.parameters;
+        return new ResolutionContext(ctx, dep, depth + 1, scope, parameters, ctx.registry);
     }
-    
-    private isShared(dep: Definition): boolean {
-        return dep.kind === Definition.Kind.Type
-            && (typeof(dep.shared) === "undefined" || dep.shared);
+
+    private scopeOf(dep: Definition): string | undefined {
+        if (dep.kind === Definition.Kind.Type) {
+            if (!dep.scope && dep.decorated) {
+                return this.scopeOf(dep.decorated) || Scope.Singleton;
+            }
+            return dep.scope || Scope.Singleton;
+        }
+        return undefined;
     }
 
     private getDefinition<T>(ctx: DiContext, dep: Dependency<T>): Promise<Definition<T>> {
         return this.defResolver.resolve(ctx, Definition.isDefinition(dep) ? dep : Typing.type(dep));
     }
 
-    public getDependency<T>(ctx: DiContext, dep: Definition<T>): Promise<T | Array<T> | Record<string, T>> {
+    private getDefinitionSync<T>(ctx: DiContext, dep: Dependency<T>): Definition<T> {
+        if (!this.defResolver.resolveSync) {
+            throw new AsyncResolutionError(`Asynchronous definition resolver "${this.defResolver.constructor.name}"`, dep, ctx.stack);
+        }
+        return this.defResolver.resolveSync(ctx, Definition.isDefinition(dep) ? dep : Typing.type(dep));
+    }
+
+    public getDependency<T>(ctx: DiContext, dep: Definition<T>): Promise<unknown> {
         ctx = this.forkContext(ctx, dep);
         switch (dep.kind) {
             case Definition.Kind.Value:
@@ -140,8 +412,55 @@ export class DependencyProvider implements IDependencyProvider {
                 return this.getRecord(ctx, dep);
             case Definition.Kind.Type:
                 return this.getType(ctx, dep);
+            case Definition.Kind.Parameter:
+                return this.getParameter(ctx, dep);
+            case Definition.Kind.Provider:
+                return this.getProvider(ctx, dep);
+            case Definition.Kind.Factory:
+                return this.getFactory(ctx, dep);
+            case Definition.Kind.Lazy:
+                return this.getLazy(ctx, dep);
+            case Definition.Kind.Optional:
+                return this.getOptional(ctx, dep);
+            case Definition.Kind.Multi:
+                return this.getMulti(ctx, dep);
+            case Definition.Kind.Collection:
+                return this.getCollection(ctx, dep);
+            case Definition.Kind.Config:
+                return this.getConfig(ctx, dep);
+        }
+        throw new ResolutionError("Invalid definition", dep, ctx.stack);
+    }
+
+    public getDependencySync<T>(ctx: DiContext, dep: Definition<T>): unknown {
+        ctx = this.forkContext(ctx, dep);
+        switch (dep.kind) {
+            case Definition.Kind.Value:
+                return dep.value;
+            case Definition.Kind.Array:
+                return (dep.elements || []).map((elem) => this.getSync(ctx, elem));
+            case Definition.Kind.Record:
+                return this.getRecordSync(ctx, dep);
+            case Definition.Kind.Type:
+                return this.getTypeSync(ctx, dep);
+            case Definition.Kind.Parameter:
+                return this.getParameterSync(ctx, dep);
+            case Definition.Kind.Provider:
+                return this.getProviderSync(ctx, dep);
+            case Definition.Kind.Factory:
+                return this.getFactorySync(ctx, dep);
+            case Definition.Kind.Lazy:
+                return this.getLazySync(ctx, dep);
+            case Definition.Kind.Optional:
+                return this.getOptionalSync(ctx, dep);
+            case Definition.Kind.Multi:
+                return this.membersOf(dep).map((member) => this.getSync(ctx, member.dependency));
+            case Definition.Kind.Collection:
+                return this.getCollectionSync(ctx, dep);
+            case Definition.Kind.Config:
+                return this.getConfigSync(ctx, dep);
         }
-        throw new Error("Invalid definition");
+        throw new ResolutionError("Invalid definition", dep, ctx.stack);
     }
 
     private getValue<T, P extends T = T>(ctx: DiContext, dep: Definition.Value<P>): Promise<T> {
@@ -167,161 +486,800 @@ export class DependencyProvider implements IDependencyProvider {
         ).then(() => elems);
     }
 
+    private getRecordSync<T, P extends T = T>(ctx: DiContext, dep: Definition.Record<P>): Record<string, T> {
+        const elems = {};
+        for (const key of Object.keys(dep.elements || {})) {
+            elems[key] = this.getSync(ctx, dep.elements[key]);
+        }
+        return elems;
+    }
+
+    private async getParameter<T, P extends T = T>(ctx: DiContext, dep: Definition.Parameter<P>): Promise<T> {
+        return this.getParameterSync(ctx, dep);
+    }
+
+    private getParameterSync<T, P extends T = T>(ctx: DiContext, dep: Definition.Parameter<P>): T {
+        const params = ctx.parameters || {};
+        if (Object.prototype.hasOwnProperty.call(params, dep.name)) {
+            return params[dep.name] as T;
+        }
+        if (Object.prototype.hasOwnProperty.call(dep, "default")) {
+            return dep.default;
+        }
+        if (dep.optional) {
+            return undefined;
+        }
+        throw new ResolutionError(`Missing parameter "${dep.name}"`, dep, ctx.stack);
+    }
+
+    private async getConfig<T, P extends T = T>(ctx: DiContext, dep: Definition.Config<P>): Promise<T> {
+        return this.getConfigSync(ctx, dep);
+    }
+
+    private getConfigSync<T, P extends T = T>(ctx: DiContext, dep: Definition.Config<P>): T {
+        const value = this.config.get(dep.key);
+        if (typeof(value) === "undefined") {
+            if (Object.prototype.hasOwnProperty.call(dep, "default")) {
+                return dep.default;
+            }
+            if (dep.optional) {
+                return undefined;
+            }
+            throw new ConfigError(`Missing config value "${dep.key}"`, dep, ctx.stack);
+        }
+        try {
+            return coerceConfig(value, dep.type) as T;
+        } catch (err) {
+            throw new ConfigError(`Invalid config value "${dep.key}": ${err.message}`, dep, ctx.stack, err);
+        }
+    }
+
+    private async getProvider<T, P extends T = T>(ctx: DiContext, dep: Definition.Provider<P>): Promise<AsyncProvider<T>> {
+        return this.getProviderSync(ctx, dep);
+    }
+
+    private getProviderSync<T, P extends T = T>(ctx: DiContext, dep: Definition.Provider<P>): AsyncProvider<T> {
+        const thunkCtx = contextOf(ctx);
+        return () => this.get(thunkCtx, dep.target) as Promise<T>;
+    }
+
+    private async getFactory<T, P extends T = T>(ctx: DiContext, dep: Definition.Factory<P>): Promise<AsyncFactory<T, [Record<string, unknown>?]>> {
+        return this.getFactorySync(ctx, dep);
+    }
+
+    private getFactorySync<T, P extends T = T>(ctx: DiContext, dep: Definition.Factory<P>): AsyncFactory<T, [Record<string, unknown>?]> {
+        const stack = ctx.stack;
+        return (parameters?: Record<string, unknown>) => this.get({
+            stack,
+            scope: Scope.Transient,
+            parameters,
+        }, dep.target) as Promise<T>;
+    }
+
+    private async getLazy<T, P extends T = T>(ctx: DiContext, dep: Definition.Lazy<P>): Promise<AsyncProvider<T>> {
+        return this.getLazySync(ctx, dep);
+    }
+
+    private getLazySync<T, P extends T = T>(ctx: DiContext, dep: Definition.Lazy<P>): AsyncProvider<T> {
+        const thunkCtx = contextOf(ctx);
+        let instance: Promise<T> | undefined;
+        return () => {
+            if (!instance) {
+                instance = this.get(thunkCtx, dep.target) as Promise<T>;
+                instance.catch(() => instance = undefined);
+            }
+            return instance;
+        };
+    }
+
+    private async getOptional<T, P extends T = T>(ctx: DiContext, dep: Definition.Optional<P>): Promise<T | undefined> {
+        let def: Definition<P>;
+        try {
+            def = await this.getDefinition(ctx, dep.target);
+        } catch (err) {
+            return this.missing(dep, err);
+        }
+        if (Definition.isType(def) && !def.factory) {
+            return dep.default;
+        }
+        return await this.get(ctx, def) as T;
+    }
+
+    private getOptionalSync<T, P extends T = T>(ctx: DiContext, dep: Definition.Optional<P>): T | undefined {
+        let def: Definition<P>;
+        try {
+            def = this.getDefinitionSync(ctx, dep.target);
+        } catch (err) {
+            return this.missing(dep, err);
+        }
+        if (Definition.isType(def) && !def.factory) {
+            return dep.default;
+        }
+        return this.getSync(ctx, def) as T;
+    }
+
+    private missing<T>(dep: Definition.Optional<T>, err: unknown): T | undefined {
+        if (err instanceof MissingBindingError) {
+            return dep.default;
+        }
+        throw err;
+    }
+
+    private getMulti<T, P extends T = T>(ctx: DiContext, dep: Definition.Multi<P>): Promise<Array<T>> {
+        return Promise.all(
+            this.membersOf(dep).map((member) => this.get(ctx, member.dependency) as Promise<T>)
+        );
+    }
+
+    private async getCollection<T, P extends T = T>(ctx: DiContext, dep: Definition.Collection<P>): Promise<Array<T> | Record<string, T> | AsyncIterable<T>> {
+        const def = await this.getDefinition(ctx, dep.target);
+        const members = this.collectionMembers(ctx, def);
+        if (dep.format === Definition.CollectionFormat.Iterator) {
+            return this.iterate<T>(ctx, def);
+        }
+        const values = await Promise.all(members.map((member) => this.get(ctx, member.dependency) as Promise<T>));
+        return this.formatCollection(dep, members, values);
+    }
+
+    private getCollectionSync<T, P extends T = T>(ctx: DiContext, dep: Definition.Collection<P>): Array<T> | Record<string, T> | AsyncIterable<T> {
+        const def = this.getDefinitionSync(ctx, dep.target);
+        const members = this.collectionMembers(ctx, def);
+        if (dep.format === Definition.CollectionFormat.Iterator) {
+            return this.iterate<T>(ctx, def);
+        }
+        const values = members.map((member) => this.getSync(ctx, member.dependency) as T);
+        return this.formatCollection(dep, members, values);
+    }
+
+    private collectionMembers<T>(ctx: DiContext, def: Definition<T>): Array<Definition.Member<T>> {
+        const members = this.membersOf(def);
+        if (!members) {
+            throw new ResolutionError("Not a multi-binding", def, ctx.stack);
+        }
+        return members;
+    }
+
+    private iterate<T>(ctx: DiContext, def: Definition<T>): AsyncIterable<T> {
+        const thunkCtx = contextOf(ctx);
+        const get = (member: Definition.Member<T>) => this.get(thunkCtx, member.dependency) as Promise<T>;
+        const membersOf = () => this.membersOf(def);
+        return {
+            [Symbol.asyncIterator]: async function* () {
+                for (const member of membersOf()) {
+                    yield await get(member);
+                }
+            },
+        };
+    }
+
+    private formatCollection<T>(dep: Definition.Collection, members: Array<Definition.Member>, values: Array<T>): Array<T> | Record<string, T> {
+        if (dep.format === Definition.CollectionFormat.Record) {
+            const elems = {};
+            members.forEach((member, index) => {
+                elems[member.name || `${index}`] = values[index];
+            });
+            return elems;
+        }
+        return values;
+    }
+
+    private membersOf<T>(def: Definition<T>): Array<Definition.Member<T>> | undefined {
+        if (Definition.isMulti(def)) {
+            return [...def.members].sort((a, b) => b.priority - a.priority);
+        }
+        if (Definition.isArray(def)) {
+            return (def.elements || [])
+                .filter((elem) => typeof(elem) !== "undefined")
+                .map((elem) => ({dependency: elem, priority: 0}));
+        }
+        if (Definition.isType(def) && !def.factory) {
+            return [];
+        }
+        return undefined;
+    }
+
     private getType<T, P extends T = T>(ctx: DiContext, dep: Definition.Type<P>):  Promise<T> {
-        return ctx.shared
-            ? this.provider.get(ctx, dep)
-            : this.factory.create(ctx, dep);
+        return this.scopes.get(ctx.scope || Scope.Singleton).get(ctx, dep);
     }
-}
 
-const ResolvedSymbol = Symbol();
+    private getTypeSync<T, P extends T = T>(ctx: DiContext, dep: Definition.Type<P>): T {
+        const scope = ctx.scope || Scope.Singleton;
+        const provider = this.scopes.get(scope);
+        if (!provider.getSync) {
+            throw new AsyncResolutionError(`Asynchronous scope "${scope}"`, dep, ctx.stack);
+        }
+        return provider.getSync(ctx, dep);
+    }
+}
 
 @Typing.register("@saggitarius/di/lib::DefinitionResolver")
 export class DefinitionResolver implements IDefinitionResolver {
+    private resolved = new WeakMap<Definition, Definition.Provision>();
+    private aliases = new WeakMap<Definition, [number, Definition.Provision]>();
+
     public constructor(
         private registry: DefinitionRegistry,
         private resolvers: DefinitionResolvers = []
     ) {}
 
     public async resolve<T>(ctx: DiContext, type: Definition<T> | Type<T> | string): Promise<Definition.Provision<T>> {
+        const [def, aliases] = this.follow(ctx, type);
+        let resolved = this.cached(def) as Definition.Provision<T> | undefined;
+        if (!resolved) {
+            resolved = {...def} as Definition.Provision<T>;
+            for (const resolver of this.resolvers) {
+                const data = await resolver.resolve(ctx, resolved);
+                Object.assign(resolved, data);
+            }
+            resolved = this.remember(def, resolved);
+        }
+        return this.alias(aliases, resolved);
+    }
+
+    public resolveSync<T>(ctx: DiContext, type: Definition<T> | Type<T> | string): Definition.Provision<T> {
+        const [def, aliases] = this.follow(ctx, type);
+        let resolved = this.cached(def) as Definition.Provision<T> | undefined;
+        if (!resolved) {
+            resolved = {...def} as Definition.Provision<T>;
+            for (const resolver of this.resolvers) {
+                if (!resolver.resolveSync) {
+                    throw new AsyncResolutionError(`Asynchronous definition resolver "${resolver.constructor.name}"`, def, ctx.stack);
+                }
+                Object.assign(resolved, resolver.resolveSync(ctx, resolved));
+            }
+            resolved = this.remember(def, resolved);
+        }
+        return this.alias(aliases, resolved);
+    }
+
+    private follow<T>(ctx: DiContext, type: Definition<T> | Type<T> | string): [Definition<T>, Definition[]] {
         let def = this.getDefinition(ctx, type);
-        const tags = [];
-        while (def.kind === Definition.Kind.Reference) {
-            tags.push(def);
+        if (this.cached(def)) {
+            return [def, []];
+        }
+        const aliases = [];
+        let tags: Record<string, unknown> = {};
+        let contextual = false;
+        let selected = false;
+        while (def.kind === Definition.Kind.Reference || def.kind === Definition.Kind.Conditional) {
+            if (Definition.isConditional(def)) {
+                const conditional = def;
+                contextual = true;
+                def = this.select(ctx, conditional, tags);
+                selected = selected || def !== conditional.fallback;
+                continue;
+            }
+            aliases.push(def);
+            tags = {...def.tags, ...tags};
             def = this.getDefinition(ctx, def.target);
-            if (def[ResolvedSymbol]) {
+            if (this.cached(def)) {
                 break;
             }
         }
-        if (!def[ResolvedSymbol]) {
-            const resolved = {...def};
-            for (const resolver of this.resolvers) {
-                const data = await resolver.resolve(ctx, resolved);
-                Object.assign(resolved, data);
+        if (!selected && Object.prototype.hasOwnProperty.call(tags, Definition.NameTag)) {
+            throw new MissingBindingError(aliases[0] || def, ctx.stack, `Missing binding named "${tags[Definition.NameTag]}"`);
+        }
+        return [def, contextual ? [] : aliases];
+    }
+
+    private remember<T>(def: Definition<T>, resolved: Definition.Provision<T>): Definition.Provision<T> {
+        if (this.resolved.has(def)) {
+            return this.resolved.get(def) as Definition.Provision<T>;
+        }
+        if (Definition.isType(def) && Definition.isType(resolved)) {
+            resolved.origin = def.origin || def;
+        }
+        this.resolved.set(def, resolved);
+        return resolved;
+    }
+
+    private alias<T>(aliases: Definition[], resolved: Definition.Provision<T>): Definition.Provision<T> {
+        for (const alias of aliases) {
+            this.aliases.set(alias, [this.registry.revision, resolved]);
+        }
+        return resolved;
+    }
+
+    private cached(def: Definition): Definition.Provision | undefined {
+        const alias = this.aliases.get(def);
+        if (alias && alias[0] === this.registry.revision) {
+            return alias[1];
+        }
+        return this.resolved.get(def);
+    }
+
+    private select<T>(ctx: DiContext, def: Definition.Conditional<T>, tags: Record<string, unknown>): Definition<T> {
+        const bindingCtx: BindingContext = {
+            stack: ctx.stack,
+            scope: ctx.scope,
+            parameters: ctx.parameters,
+            type: def.type,
+            parent: this.consumerOf(ctx, def.type),
+            tags,
+        };
+        const matches = def.candidates.filter((candidate) => (
+            candidate.conditions.every((condition) => condition(bindingCtx))
+        ));
+        if (matches.length > 1) {
+            throw new AmbiguousBindingError(def.type, matches.length, ctx.stack);
+        }
+        return matches.length > 0 ? matches[0].definition : def.fallback;
+    }
+
+    private consumerOf(ctx: DiContext, type: Type): Definition.Type | undefined {
+        const stack = ctx.stack || [];
+        for (let index = stack.length - 1; index >= 0; --index) {
+            const dep = stack[index];
+            if (Definition.isType(dep) && dep.type !== type) {
+                return dep;
             }
-            Reflect.defineProperty(def, ResolvedSymbol, {
-                enumerable: false,
-                configurable: false,
-                writable: false,
-                value: resolved,
+        }
+        return undefined;
+    }
+
+    private getDefinition<T>(ctx: DiContext, type: Definition<T> | Type<T> | string): Definition<T> {
+        if (typeof(type) === "string") {
+            type = Typing.type(type);
+        }
+        if (Typing.isType(type)) {
+            let def = this.registry.get(type) as Definition<T>;
+            if (!def) {
+                def = Definition.makeType<T>(type);
+                this.registry.set(type, def);
+            }
+            return def;
+        }
+        return type;
+    }
+}
+
+@Typing.register("@saggitarius/di/lib::ObjectFactory")
+export class ObjectFactory implements IObjectFactory {
+
+    public constructor(
+        private depsProvider: IDependencyProvider,
+        private events: IResolutionEvents,
+        private interceptors: IInterceptorRegistry,
+    ) {}
+
+    public async create<T>(ctx: DiContext, def: Definition.Type<T>): Promise<T> {
+        try {
+            const factoryPromise = this.getFactory(ctx, def);
+            const argsPromise = this.getArgs(ctx, def);
+
+            const factory = await factoryPromise;
+            const args = await argsPromise;
+            const start = Date.now();
+            const instance = await factory(...args);
+            const duration = Date.now() - start;
+            const result = await this.intercept(ctx, def, instance);
+            this.register(ctx, def, result);
+    
+            const props = await this.getProps(ctx, def);
+            Object.assign(instance, props);
+
+            for (const activator of def.activators || []) {
+                await activator(instance);
+            }
+
+            return this.created(ctx, def, result, duration);
+        } catch (err) {
+            throw err;
+        }
+    }
+
+    public createSync<T>(ctx: DiContext, def: Definition.Type<T>): T {
+        const factory = this.getFactorySync(ctx, def);
+        const args = this.getArgsSync(ctx, def);
+        const start = Date.now();
+        const instance = factory(...args);
+        const duration = Date.now() - start;
+        if (isThenable(instance)) {
+            this.discard(def, instance);
+            throw new AsyncResolutionError("Asynchronous factory", def, ctx.stack);
+        }
+        const result = this.interceptSync(ctx, def, instance);
+        this.register(ctx, def, result);
+
+        const [, props] = compositesOf(def);
+        Object.assign(instance, props ? this.depsProvider.getSync(ctx, props) : {});
+
+        for (const activator of def.activators || []) {
+            const activated = activator(instance);
+            if (isThenable(activated)) {
+                this.discard(def, activated.then(() => result));
+                throw new AsyncResolutionError("Asynchronous activator", def, ctx.stack);
+            }
+        }
+
+        return this.created(ctx, def, result, duration);
+    }
+
+    private register<T>(ctx: DiContext, def: Definition.Type<T>, instance: T): void {
+        Typing.store(instance, def.type);
+        if (ctx.instance) {
+            ctx.instance.set(settle(ctx.instance, instance));
+            ctx.registry = Object.create(ctx.registry || null);
+            ctx.registry[Typing.hashOf(def.type)] = ctx.instance;
+        }
+    }
+
+    private discard<T>(def: Definition.Type<T>, pending: PromiseLike<T>): void {
+        pending.then((instance) => {
+            const teardown = teardownOf(instance, def);
+            return teardown && teardown();
+        }).then(undefined, () => undefined);
+    }
+
+    private created<T>(ctx: DiContext, def: Definition.Type<T>, instance: T, duration: number): T {
+        if (this.events.has(ResolutionEventKind.InstanceCreated)) {
+            this.events.emit({
+                kind: ResolutionEventKind.InstanceCreated,
+                dependency: def,
+                depth: depthOf(ctx) - 1,
+                time: Date.now(),
+                duration,
+                instance,
             });
         }
-        for (const tag of tags) {
-            Reflect.defineProperty(tag, ResolvedSymbol, {
-                enumerable: false,
-                configurable: false,
-                writable: false,
-                value: def[ResolvedSymbol],
+        return instance;
+    }
+
+    private async getFactory<T>(ctx: DiContext, def: Definition.Type<T>): Promise<Factory<T | Promise<T>>> {
+        if (!def.factory) {
+            throw new MissingBindingError(def, ctx.stack);
+        }
+        return def.factory;
+    }
+
+    private getFactorySync<T>(ctx: DiContext, def: Definition.Type<T>): Factory<T | Promise<T>> {
+        if (!def.factory) {
+            throw new MissingBindingError(def, ctx.stack);
+        }
+        if (def.factory.constructor.name === "AsyncFunction") {
+            throw new AsyncResolutionError("Asynchronous factory", def, ctx.stack);
+        }
+        return def.factory;
+    }
+
+    private async getArgs<T>(ctx: DiContext, def: Definition.Type<T>): Promise<Array<unknown>> {
+        const [args] = compositesOf(def);
+        if (args) {
+            return this.depsProvider.get(ctx, args);
+        }
+        return [];
+    }
+
+    private getArgsSync<T>(ctx: DiContext, def: Definition.Type<T>): Array<unknown> {
+        const [args] = compositesOf(def);
+        if (args) {
+            return this.depsProvider.getSync(ctx, args);
+        }
+        return [];
+    }
+
+    private async getProps<T>(ctx: DiContext, def: Definition.Type<T>): Promise<Record<string, unknown>> {
+        const [, props] = compositesOf(def);
+        if (props) {
+            return this.depsProvider.get(ctx, props);
+        }
+        return {};
+    }
+
+    private async intercept<T>(ctx: DiContext, def: Definition.Type<T>, instance: T): Promise<T> {
+        const deps = this.interceptorsOf(def);
+        if (deps.length === 0) {
+            return instance;
+        }
+        const interceptors = await this.depsProvider.get<IInterceptor>(ctx, Definition.makeArray<IInterceptor>(deps));
+        return createProxy(instance, def, interceptors);
+    }
+
+    private interceptSync<T>(ctx: DiContext, def: Definition.Type<T>, instance: T): T {
+        const deps = this.interceptorsOf(def);
+        if (deps.length === 0) {
+            return instance;
+        }
+        const interceptors = this.depsProvider.getSync<IInterceptor>(ctx, Definition.makeArray<IInterceptor>(deps));
+        return createProxy(instance, def, interceptors);
+    }
+
+    private interceptorsOf<T>(def: Definition.Type<T>): Array<Dependency<IInterceptor>> {
+        return [...this.interceptors.get(def), ...(def.interceptors || [])];
+    }
+}
+
+function createSync<T>(factory: IObjectFactory, ctx: DiContext, def: Definition.Type<T>): T {
+    if (!factory.createSync) {
+        throw new AsyncResolutionError(`Asynchronous object factory "${factory.constructor.name}"`, def, ctx.stack);
+    }
+    return factory.createSync(ctx, def);
+}
+
+@Typing.register("@saggitarius/di/lib::ObjectProvider")
+export class ObjectProvider implements IObjectProvider {
+    public constructor(
+        private factory: IObjectFactory,
+        private registry: InstanceRegistry,
+        private disposables: Disposables,
+        private events: IResolutionEvents,
+    ) {}
+
+    public async get<T>(ctx: DiContext, def: Definition.Type<T>): Promise<T> {
+        const hash = Typing.hashOf(def.type);
+        if (ctx.registry && ctx.registry[hash]) {
+            this.cacheHit(ctx, def);
+            let result = await ctx.registry[hash].get();
+            return result;
+        }
+        const key = instanceKeyOf(def);
+        let instance = this.registry.get(key) as Promise<T> | undefined;
+        if (instance) {
+            this.cacheHit(ctx, def);
+        } else {
+            ctx.instance = ctx.instance || new Future<T>();
+            instance = this.factory.create<T>(ctx, def).then(
+                (created) => {
+                    this.disposables.track(created, def);
+                    return settle<T>(instance, created);
+                },
+                (err) => {
+                    if (this.registry.get(key) === instance) {
+                        this.registry.delete(key);
+                    }
+                    throw err;
+                },
+            );
+            this.registry.set(key, instance);
+        }
+        return instance;
+    }
+
+    public getSync<T>(ctx: DiContext, def: Definition.Type<T>): T {
+        const hash = Typing.hashOf(def.type);
+        if (ctx.registry && ctx.registry[hash]) {
+            this.cacheHit(ctx, def);
+            return settledValue(ctx.registry[hash], def, ctx.stack);
+        }
+        const key = instanceKeyOf(def);
+        const instance = this.registry.get(key);
+        if (instance) {
+            this.cacheHit(ctx, def);
+            return settledValue(instance, def, ctx.stack);
+        }
+        ctx.instance = ctx.instance || new Future<T>();
+        const created = createSync(this.factory, ctx, def);
+        this.disposables.track(created, def);
+        this.registry.set(key, Promise.resolve(created));
+        return settle(this.registry.get(key), created);
+    }
+
+    private cacheHit(ctx: DiContext, def: Definition.Type): void {
+        if (this.events.has(ResolutionEventKind.CacheHit)) {
+            this.events.emit({
+                kind: ResolutionEventKind.CacheHit,
+                dependency: def,
+                depth: depthOf(ctx) - 1,
+                time: Date.now(),
             });
         }
-        return def[ResolvedSymbol];
+    }
+}
+
+@Typing.register("@saggitarius/di/lib::TransientProvider")
+export class TransientProvider implements IObjectProvider {
+    public constructor(
+        private factory: IObjectFactory,
+        private disposables: Disposables,
+    ) {}
+
+    public async get<T>(ctx: DiContext, def: Definition.Type<T>): Promise<T> {
+        const instance = await this.factory.create<T>(ctx, def);
+        this.disposables.track(instance, def, true);
+        return instance;
+    }
+
+    public getSync<T>(ctx: DiContext, def: Definition.Type<T>): T {
+        const instance = createSync(this.factory, ctx, def);
+        this.disposables.track(instance, def, true);
+        return instance;
+    }
+}
+
+const AsyncDisposeSymbol: symbol | undefined = Reflect.get(Symbol, "asyncDispose");
+
+interface WeakReference {
+    deref(): unknown;
+}
+
+interface Finalizer<T> {
+    register(target: unknown, held: T): void;
+}
+
+const WeakReference: (new (target: unknown) => WeakReference) | undefined = Reflect.get(globalThis, "WeakRef");
+const Finalizer: (new <T>(cleanup: (held: T) => void) => Finalizer<T>) | undefined = Reflect.get(globalThis, "FinalizationRegistry");
+
+function teardownOf(instance: unknown, def: Definition.Type): (() => void | Promise<void>) | undefined {
+    if (def.dispose) {
+        return () => def.dispose(instance);
+    }
+    if (typeof(instance) !== "object" || instance === null) {
+        return undefined;
+    }
+    if (AsyncDisposeSymbol && typeof(instance[AsyncDisposeSymbol]) === "function") {
+        return () => instance[AsyncDisposeSymbol]();
+    }
+    if (typeof(instance["dispose"]) === "function") {
+        return () => instance["dispose"]();
+    }
+    return undefined;
+}
+
+interface Tracked {
+    def: Definition.Type;
+    instance?: unknown;
+    ref?: WeakReference;
+}
+
+function instanceOf(entry: Tracked): unknown {
+    return entry.ref ? entry.ref.deref() : entry.instance;
+}
+
+@Typing.register("@saggitarius/di/lib::Disposables")
+export class Disposables {
+    private entries = new Set<Tracked>();
+    private released: Array<Promise<unknown>> = [];
+    private finalizer = WeakReference && Finalizer && new Finalizer<Tracked>((entry) => this.entries.delete(entry));
+
+    public track<T>(instance: T, def: Definition.Type<T>, weak = false): void {
+        if (!teardownOf(instance, def)) {
+            return;
+        }
+        if (weak && this.finalizer && typeof(instance) === "object" && instance !== null) {
+            const entry: Tracked = {def, ref: new WeakReference(instance)};
+            this.entries.add(entry);
+            this.finalizer.register(instance, entry);
+        } else {
+            this.entries.add({def, instance});
+        }
+    }
+
+    public release(instance: unknown): void {
+        for (const entry of this.entries) {
+            if (instanceOf(entry) === instance) {
+                this.entries.delete(entry);
+                const teardown = teardownOf(instance, entry.def);
+                this.released.push(Promise.resolve().then(teardown).then(() => undefined, (err) => err));
+                return;
+            }
+        }
     }
 
-    private getDefinition<T>(ctx: DiContext, type: Definition<T> | Type<T> | string): Definition<T> {
-        if (typeof(type) === "string") {
-            type = Typing.type(type);
+    public async dispose(): Promise<void> {
+        const errors = [];
+        for (const result of await Promise.all(this.released.splice(0))) {
+            if (typeof(result) !== "undefined") {
+                errors.push(result);
+            }
         }
-        if (Typing.isType(type)) {
-            let def = this.registry.get(type) as Definition<T>;
-            if (!def) {
-                def = Definition.makeType<T>(type);
-                this.registry.set(type, def);
+        const entries = [...this.entries].reverse();
+        this.entries.clear();
+        for (const entry of entries) {
+            const instance = instanceOf(entry);
+            const teardown = entry.ref && typeof(instance) === "undefined" ? undefined : teardownOf(instance, entry.def);
+            try {
+                await (teardown && teardown());
+            } catch (err) {
+                errors.push(err);
             }
-            return def;
         }
-        return type;
+        if (errors.length > 0) {
+            throw new DisposalError(errors);
+        }
     }
 }
 
-@Typing.register("@saggitarius/di/lib::ObjectFactory")
-export class ObjectFactory implements IObjectFactory {
+@Typing.register("@saggitarius/di/lib::ScopeManager")
+export class ScopeManager implements IScopeManager {
+    private providers = new Map<string, IObjectProvider>();
+    private opened = new Map<string, Disposables>();
 
     public constructor(
-        private depsProvider: IDependencyProvider
-    ) {}
+        private factory: IObjectFactory,
+        private registry: InstanceRegistry,
+        private disposables: Disposables,
+        private events: IResolutionEvents,
+    ) {
+        this.register(Scope.Singleton, new ObjectProvider(factory, registry, disposables, events));
+        this.register(Scope.Transient, new TransientProvider(factory, disposables));
+    }
 
-    public async create<T>(ctx: DiContext, def: Definition.Type<T>): Promise<T> {
-        try {
-            const factoryPromise = this.getFactory(ctx, def);
-            const argsPromise = this.getArgs(ctx, def);
-    
-            const factory = await factoryPromise;
-            const args = await argsPromise;
-            const instance = await factory(...args);
-            Typing.store(instance, def.type);
-    
-            if (ctx.instance) {
-                ctx.instance.set(instance);
-            }
-    
-            const props = await this.getProps(ctx, def);
-            Object.assign(instance, props);
-    
-            return instance;
-        } catch (err) {
-            throw err;
+    public register(name: string, provider: IObjectProvider): void {
+        if (this.providers.has(name)) {
+            throw new Error(`Scope "${name}" is already registered`);
         }
+        this.providers.set(name, provider);
     }
 
-    private async getFactory<T>(ctx: DiContext, def: Definition.Type<T>): Promise<AsyncFactory<T>> {
-        if (!def.factory) {
-            throw new Error("Factory is not defined");
-        }
-        return def.factory;
+    public open(name: string): void {
+        const disposables = new Disposables();
+        this.register(name, new ObjectProvider(this.factory, new ScopedMap(), disposables, this.events));
+        this.opened.set(name, disposables);
     }
 
-    private async getArgs<T>(ctx: DiContext, def: Definition.Type<T>): Promise<Array<unknown>> {
-        if (def.args) {
-            return this.depsProvider.get(ctx, Definition.makeArray(def.args));
+    public async close(name: string): Promise<void> {
+        const disposables = this.opened.get(name);
+        if (!disposables) {
+            throw new Error(`Scope "${name}" is not open`);
         }
-        return [];
+        this.opened.delete(name);
+        this.providers.delete(name);
+        await disposables.dispose();
     }
 
-    private async getProps<T>(ctx: DiContext, def: Definition.Type<T>): Promise<Record<string, unknown>> {
-        if (def.props) {
-            return this.depsProvider.get(ctx, Definition.makeRecord(def.props));
+    public async dispose(): Promise<void> {
+        const errors = [];
+        for (const name of [...this.opened.keys()].reverse()) {
+            await this.close(name).catch((err) => errors.push(err));
+        }
+        this.registry.clear();
+        await this.disposables.dispose().catch((err) => errors.push(err));
+        if (errors.length > 0) {
+            throw new DisposalError(errors.reduce((all, err) => all.concat(
+                err instanceof DisposalError ? err.errors : [err]
+            ), []));
         }
-        return {};
     }
-}
-
-@Typing.register("@saggitarius/di/lib::ObjectProvider")
-export class ObjectProvider implements IObjectProvider {
-    public constructor(
-        private factory: IObjectFactory,
-        private registry: InstanceRegistry,
-    ) {}
 
-    public async get<T>(ctx: DiContext, def: Definition.Type<T>): Promise<T> {
-        const hash = Typing.hashOf(def.type);
-        if (ctx.registry && ctx.registry[hash]) {
-            let result = await ctx.registry[hash].get();
-            return result;
-        } 
-        const instance = this.registry.get(def) as Future<T> | undefined;
-        if (!instance) {
-            ctx.instance = ctx.instance || new Future<T>();
-            ctx.registry = ctx.registry || {}
-            this.registry.set(def, ctx.instance);
-            ctx.registry[hash] = ctx.instance;
-            return this.factory.create<T>(ctx, def)
+    public get(name: string): IObjectProvider {
+        const provider = this.providers.get(name);
+        if (!provider) {
+            throw new Error(`Scope "${name}" is not open`);
         }
-        return instance;
+        return provider;
     }
 }
 
 class BaseBining {
     protected def: Definition;
+    private root: Definition;
 
     public constructor(
-        private defRegistry: DefinitionRegistry,
-        private type: Type,
+        protected defRegistry: DefinitionRegistry,
+        protected type: Type,
+        protected candidate?: Definition.Candidate,
     ) {
-        this.def = defRegistry.get(type) as Definition;
-        if (!this.def) {
-            this.def = Definition.makeType(type);
-            defRegistry.set(type, this.def);
+        if (candidate) {
+            this.def = candidate.definition;
+        } else {
+            const current = defRegistry.get(type);
+            this.root = current ? Definition.clone(current) : Definition.makeType(type);
+            defRegistry.set(type, this.root);
+            this.def = this.root;
+            while (Definition.isType(this.def) && this.def.decorated || Definition.isConditional(this.def)) {
+                this.def = Definition.isConditional(this.def) ? this.def.fallback : this.def.decorated;
+            }
+        }
+    }
+
+    protected conditional(): Definition.Conditional {
+        let def = this.root;
+        let parent: Definition.Type | undefined;
+        while (Definition.isType(def) && def.decorated) {
+            parent = def;
+            def = def.decorated;
+        }
+        if (Definition.isConditional(def)) {
+            return def;
         }
+        const conditional = Definition.makeConditional(this.type, def);
+        if (parent) {
+            parent.decorated = conditional;
+        } else {
+            this.root = conditional;
+            this.defRegistry.set(this.type, conditional);
+        }
+        return conditional;
     }
 
     protected definition<T>(ref?: Dependency<T>): Definition<T> | Type<T> {
@@ -334,19 +1292,87 @@ class BaseBining {
         return undefined;
     }
 
-    protected tagType<T>(tag: Reference<T>) {
-        const tagType = Typing.type(tag);
-        let tagDef = this.defRegistry.get(tagType);
-        if (typeof(tagDef) === "undefined") {
-            tagDef = Definition.makeArray([]);
-            this.defRegistry.set(tagType, tagDef);
+    protected tagType<T>(tag: Reference<T>, options?: MultiBindingOptions) {
+        new MultiBinding(this.defRegistry, Typing.type(tag)).add(this.candidate ? this.def : this.type, options);
+        return this;
+    }
+}
+
+class MultiBinding<T = unknown> implements IMultiBinding<T> {
+    public constructor(
+        private defRegistry: DefinitionRegistry,
+        private type: Type,
+    ) {}
+
+    public add(dep: Dependency<T>, options: MultiBindingOptions = {}): IMultiBinding<T> {
+        if (typeof(dep) === "function" && !this.defRegistry.has(Typing.type(dep))) {
+            new Binding(this.defRegistry, Typing.type(dep)).toClass(dep as Typing.Constructor);
         }
-        if (Definition.isArray(tagDef)) {
-            tagDef.elements = tagDef.elements || [];
-            tagDef.elements.push(this.def);
+        const dependency = (Definition.isDefinition(dep) ? dep : Typing.type(dep)) as Dependency<T>;
+        const multi = this.multi();
+        let member = multi.members.find((item) => item.dependency === dependency);
+        if (!member) {
+            member = {dependency, priority: 0};
+            multi.members.push(member);
+        }
+        member.priority = options.priority || 0;
+        member.name = options.name || this.nameOf(dependency);
+        return this;
+    }
+
+    public addValue(value: T, options?: MultiBindingOptions): IMultiBinding<T> {
+        return this.add(Definition.makeValue(value), options);
+    }
+
+    public addFactory(fn: (...args: unknown[]) => T | Promise<T>, args: Dependency[] = [], options?: MultiBindingOptions): IMultiBinding<T> {
+        return this.add({
+            kind: Definition.Kind.Type,
+            type: this.type,
+            factory: (...params: unknown[]) => fn(...params),
+            args: args.map((arg) => Definition.isDefinition(arg) ? arg : Typing.type(arg)),
+        } as Definition.Type<T>, options);
+    }
+
+    public remove(dep: Dependency<T> | string): IMultiBinding<T> {
+        const multi = this.multi();
+        const dependency = Definition.isDefinition(dep) ? dep : Typing.type(dep);
+        for (const member of multi.members.filter((item) => item.dependency === dependency || item.name === dep)) {
+            multi.members.splice(multi.members.indexOf(member), 1);
         }
         return this;
     }
+
+    private multi(): Definition.Multi<T> {
+        let def = this.defRegistry.get(this.type);
+        if (def) {
+            def = Definition.clone(def);
+        }
+        if (!def || Definition.isType(def) && !def.factory) {
+            def = Definition.makeMulti(this.type);
+        } else if (Definition.isArray(def)) {
+            def = Definition.makeMulti(this.type, (def.elements || [])
+                .filter((elem) => typeof(elem) !== "undefined")
+                .map((elem) => ({dependency: elem, priority: 0, name: this.nameOf(elem)})));
+        }
+        if (!Definition.isMulti(def)) {
+            throw new Error(`"${Typing.nameOf(this.type)}" is not a multi-binding`);
+        }
+        this.defRegistry.set(this.type, def);
+        return def as Definition.Multi<T>;
+    }
+
+    private nameOf(dep: Dependency): string | undefined {
+        if (Definition.isType(dep) && dep.type !== this.type) {
+            return Typing.nameOf(dep.type);
+        }
+        if (Definition.isReference(dep)) {
+            return Typing.nameOf(dep.target);
+        }
+        if (!Definition.isDefinition(dep)) {
+            return Typing.nameOf(Typing.type(dep));
+        }
+        return undefined;
+    }
 }
 
 class ArrayBinding<TArgs extends ArrayLike<unknown> = ArrayLike<unknown>> extends BaseBining implements IArrayBinding<TArgs> {
@@ -410,12 +1436,50 @@ class TypeBinding<
     protected def: Definition.Type<T>;
     
     public shared(shared: boolean): IClassBinding<T, TArgs, TInst> {
-        this.def.shared = shared;
+        return this.inScope(shared ? Scope.Singleton : Scope.Transient);
+    }
+
+    public inSingletonScope(): IClassBinding<T, TArgs, TInst> {
+        return this.inScope(Scope.Singleton);
+    }
+
+    public inTransientScope(): IClassBinding<T, TArgs, TInst> {
+        return this.inScope(Scope.Transient);
+    }
+
+    public inScope(scope: string): IClassBinding<T, TArgs, TInst> {
+        this.def.scope = scope;
+        return this;
+    }
+
+    public onDispose(fn: (instance: TInst) => void | Promise<void>): IClassBinding<T, TArgs, TInst> {
+        this.def.dispose = fn as (instance: unknown) => void | Promise<void>;
+        return this;
+    }
+
+    public onActivation(fn: (instance: TInst) => void | Promise<void>): IClassBinding<T, TArgs, TInst> {
+        this.def.activators = this.def.activators || [];
+        this.def.activators.push(fn as (instance: unknown) => void | Promise<void>);
+        return this;
+    }
+
+    public withInitializer<K extends keyof TInst>(method: K): IClassBinding<T, TArgs, TInst> {
+        return this.onActivation((instance) => {
+            if (typeof(instance[method]) !== "function") {
+                throw new Error(`Initializer "${String(method)}" is not a method`);
+            }
+            return (instance[method] as unknown as () => void | Promise<void>)();
+        });
+    }
+
+    public tag<V extends T[]>(tag: Reference<V>, options?: MultiBindingOptions): IClassBinding<T, TArgs, TInst> {
+        this.tagType(tag, options);
         return this;
     }
 
-    public tag<V extends T[]>(tag: Reference<V>): IClassBinding<T, TArgs, TInst> {
-        this.tagType(tag);
+    public intercept(interceptor: Dependency<IInterceptor>): IClassBinding<T, TArgs, TInst> {
+        this.def.interceptors = this.def.interceptors || [];
+        this.def.interceptors.push(this.definition(interceptor));
         return this;
     }
 
@@ -425,6 +1489,12 @@ class TypeBinding<
         return this;
     }
 
+    public withOptionalArgument<K extends keyof TArgs>(index: K, value: Reference<TArgs[K]>, defaultValue?: TArgs[K]): IClassBinding<T, TArgs, TInst> {
+        const args = this.args();
+        args[index] = Definition.makeOptional(this.definition(value), defaultValue);
+        return this;
+    }
+
     public withProperty<K extends keyof TInst>(key: K, value: Reference<TInst[K]>): IClassBinding<T, TArgs, TInst> {
         const props = this.props();
         props[key] = this.definition(value) || props[key];
@@ -485,16 +1555,42 @@ abstract class GenericBinding extends BaseBining implements IBinding, IClassBind
     abstract toType<P = unknown>(type: Typing.Reference<P>): IBinding<unknown>;
     abstract toValue(val: unknown): IBinding<unknown>;
     abstract toFactory(fn: (...args: unknown[]) => unknown): IBinding<unknown>;
+    abstract toDefinition(def: Definition): IBinding<unknown>;
+    abstract when(condition: BindingCondition): IBinding<unknown>;
+    abstract whenInjectedInto(consumer: Reference): IBinding<unknown>;
+    abstract whenTagged(name: string, value: unknown): IBinding<unknown>;
+    abstract named(name: string): IBinding<unknown>;
 
     shared(shared: boolean): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
         throw new Error("Method not implemented.");
     }
-    tag<V extends (new (...args: unknown[]) => unknown)[]>(tag: Typing.Reference<V>): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
+    inSingletonScope(): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
+        throw new Error("Method not implemented.");
+    }
+    inTransientScope(): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
+        throw new Error("Method not implemented.");
+    }
+    inScope(scope: string): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
+        throw new Error("Method not implemented.");
+    }
+    onDispose(fn: (instance: unknown) => void | Promise<void>): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
+        throw new Error("Method not implemented.");
+    }
+    onActivation(fn: (instance: unknown) => void | Promise<void>): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
+        throw new Error("Method not implemented.");
+    }
+    withInitializer<K extends never>(method: K): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
+        throw new Error("Method not implemented.");
+    }
+    tag<V extends (new (...args: unknown[]) => unknown)[]>(tag: Typing.Reference<V>, options?: MultiBindingOptions): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
         throw new Error("Method not implemented.");
     }
     withArgument<K extends number | "length" | "toString" | "toLocaleString" | "pop" | "push" | "concat" | "join" | "reverse" | "shift" | "slice" | "sort" | "splice" | "unshift" | "indexOf" | "lastIndexOf" | "every" | "some" | "forEach" | "map" | "filter" | "reduce" | "reduceRight" | "find" | "findIndex" | "fill" | "copyWithin" | "entries" | "keys" | "values" | "includes" | "flatMap" | "flat">(index: K, value: Dependency<unknown[][K]>): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
         throw new Error("Method not implemented.");
     }
+    withOptionalArgument<K extends number | "length" | "toString" | "toLocaleString" | "pop" | "push" | "concat" | "join" | "reverse" | "shift" | "slice" | "sort" | "splice" | "unshift" | "indexOf" | "lastIndexOf" | "every" | "some" | "forEach" | "map" | "filter" | "reduce" | "reduceRight" | "find" | "findIndex" | "fill" | "copyWithin" | "entries" | "keys" | "values" | "includes" | "flatMap" | "flat">(index: K, value: Dependency<unknown[][K]>, defaultValue?: unknown[][K]): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
+        throw new Error("Method not implemented.");
+    }
     withProperty<K extends never>(key: K, value: Dependency<unknown>): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
         throw new Error("Method not implemented.");
     }
@@ -504,6 +1600,9 @@ abstract class GenericBinding extends BaseBining implements IBinding, IClassBind
     withProperties(props: RecordDependencies<unknown>): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
         throw new Error("Method not implemented.");
     }
+    intercept(interceptor: Dependency<IInterceptor>): IClassBinding<new (...args: unknown[]) => unknown, unknown[], unknown> {
+        throw new Error("Method not implemented.");
+    }
     withField<K extends string>(key: K, value: Typing.Reference<unknown>): IRecordBinding<Record<string, unknown>> {
         throw new Error("Method not implemented.");
     }
@@ -532,7 +1631,8 @@ class Binding extends GenericBinding implements
     public toClass<T extends new (...args: unknown[]) => unknown, TArgs extends unknown[] = ConstructorParameters<T>, TInst = InstanceType<T>>(ctor: T): IClassBinding<T, TArgs, TInst> {
         Object.assign(this.def, {
             kind: Definition.Kind.Type,
-            factory: async (...args: TArgs) => new ctor(...args),
+            class: ctor,
+            factory: (...args: TArgs) => new ctor(...args),
         });
         return this as IClassBinding<T, TArgs, TInst>;
     }
@@ -584,40 +1684,355 @@ class Binding extends GenericBinding implements
     public toFactory(fn: (...args: unknown[]) => unknown): IBinding<unknown> {
         Object.assign(this.def, {
             kind: Definition.Kind.Type,
-            factory: async (...args: unknown[]) => fn(...args),
+            class: undefined,
+            factory: (...args: unknown[]) => fn(...args),
         });
         return this;
     }
+
+    public toDefinition(def: Definition): IBinding<unknown> {
+        for (const key of Object.keys(this.def)) {
+            delete this.def[key];
+        }
+        Object.assign(this.def, Definition.clone(def));
+        return this;
+    }
+
+    public when(condition: BindingCondition): IBinding<unknown> {
+        if (this.candidate) {
+            this.candidate.conditions.push(condition);
+            return this;
+        }
+        const candidate: Definition.Candidate = {
+            conditions: [condition],
+            definition: Definition.makeType(this.type),
+        };
+        this.conditional().candidates.push(candidate);
+        return new Binding(this.defRegistry, this.type, candidate);
+    }
+
+    public whenInjectedInto(consumer: Reference): IBinding<unknown> {
+        const type = Typing.type(consumer);
+        return this.when((ctx) => !!ctx.parent && ctx.parent.type === type);
+    }
+
+    public whenTagged(name: string, value: unknown): IBinding<unknown> {
+        return this.when((ctx) => ctx.tags[name] === value);
+    }
+
+    public named(name: string): IBinding<unknown> {
+        return this.whenTagged(Definition.NameTag, name);
+    }
 }
 
 @Typing.register("@saggitarius/di/lib::DependencyManager")
 export class DependencyManager implements IDependencyManager {
+    public containerFactory: ContainerFactory;
+    private modules = new Map<IContainerModule, ModuleRecord>();
+    private retained = new WeakSet<Promise<unknown>>();
+
     public constructor(
         private depsProvider: IDependencyProvider,
         private defRegistry: DefinitionRegistry,
+        private instRegistry: InstanceRegistry,
+        private scopes: IScopeManager,
+        private validator: IContainerValidator,
+        private events: IResolutionEvents,
+        private interceptors: IInterceptorRegistry,
+        private config: IConfigRegistry,
+        private compiler: IContainerCompiler,
+        private disposables: Disposables,
     ) {}
 
+    public createChild(): IDependencyManager {
+        if (!this.containerFactory) {
+            throw new Error("Container factory is not defined");
+        }
+        return this.containerFactory(this.defRegistry, this.instRegistry, this.config);
+    }
+
+    public openScope(scope: string): void {
+        this.scopes.open(scope);
+    }
+
+    public closeScope(scope: string): Promise<void> {
+        return this.scopes.close(scope);
+    }
+
+    public dispose(): Promise<void> {
+        return this.scopes.dispose();
+    }
+
     public bind(type: Reference): IBinding & IClassBinding & IArrayBinding & IRecordBinding {
+        const previous = this.defRegistry.hasOwn(Typing.type(type)) ? this.defRegistry.get(Typing.type(type)) : undefined;
+        const binding = new Binding(this.defRegistry, Typing.type(type));
+        this.release(previous);
+        return binding;
+    }
+
+    public bindMulti<T>(type: Reference<T[]>): IMultiBinding<T> {
+        return new MultiBinding<T>(this.defRegistry, Typing.type(type));
+    }
+
+    public override(type: Reference): IBinding & IClassBinding & IArrayBinding & IRecordBinding {
+        const previous = this.defRegistry.hasOwn(Typing.type(type)) ? this.defRegistry.get(Typing.type(type)) : undefined;
+        this.defRegistry.set(Typing.type(type), Definition.makeType(Typing.type(type)));
+        this.release(previous);
         return new Binding(this.defRegistry, Typing.type(type));
     }
 
-    public get<T>(type: Reference): Promise<T> {
-        type = Typing.type(type);
+    public snapshot(): ContainerSnapshot {
+        for (const instance of this.instRegistry.values()) {
+            this.retained.add(instance);
+        }
+        const snapshot: ManagerSnapshot = {
+            definitions: new Map(this.defRegistry),
+            instances: new Map(this.instRegistry),
+            modules: new Map(this.modules),
+        };
+        return snapshot;
+    }
+
+    public restore(snapshot: ContainerSnapshot): void {
+        for (const [def, instance] of this.instRegistry) {
+            if (snapshot.instances.get(def) !== instance) {
+                this.discard(def);
+            }
+        }
+        this.defRegistry.clear();
+        for (const [type, def] of snapshot.definitions) {
+            this.defRegistry.set(type, def);
+        }
+        this.instRegistry.clear();
+        for (const [def, instance] of snapshot.instances) {
+            this.instRegistry.set(def, instance);
+        }
+        this.modules = new Map((snapshot as ManagerSnapshot).modules || []);
+    }
+
+    public async load(module: IContainerModule): Promise<void> {
+        if (this.modules.has(module)) {
+            return;
+        }
+        for (const dependency of module.dependencies || []) {
+            await this.load(dependency);
+        }
+        const definitions = new Map(this.defRegistry);
+        const elements = new Map<Type, Array<unknown>>();
+        for (const [type, def] of definitions) {
+            const collection = collectionOf(def);
+            if (collection) {
+                elements.set(type, [...collection]);
+            }
+        }
+        const record: ModuleRecord = {definitions: [], tags: []};
+        this.modules.set(module, record);
+        try {
+            module.register((type: Reference) => this.bind(type));
+            if (module.load) {
+                await module.load(this);
+            }
+        } catch (err) {
+            this.modules.delete(module);
+            this.removeRecord(this.recordChanges(definitions, elements));
+            throw err;
+        }
+        Object.assign(record, this.recordChanges(definitions, elements));
+    }
+
+    public async unload(module: IContainerModule): Promise<void> {
+        const record = this.modules.get(module);
+        if (!record) {
+            return;
+        }
+        for (const other of this.modules.keys()) {
+            if (other !== module && (other.dependencies || []).includes(module)) {
+                throw new Error(`Module "${module.name || "<anonymous>"}" is required by "${other.name || "<anonymous>"}"`);
+            }
+        }
+        if (module.unload) {
+            await module.unload(this);
+        }
+        this.removeRecord(record);
+        this.modules.delete(module);
+    }
+
+    public validate(): Promise<ValidationReport> {
+        return this.validator.validate();
+    }
+
+    public graph(): DependencyGraph {
+        return buildGraph(this.defRegistry);
+    }
+
+    public exportDocument(): DocumentExport {
+        return buildDocument(this.defRegistry);
+    }
+
+    public compile(): string {
+        return this.compiler.compile();
+    }
+
+    public useCompiled(module: CompiledModule): void {
+        this.compiler.link(module);
+    }
+
+    public on(kind: ResolutionEventKind, listener: ResolutionListener): void {
+        this.events.on(kind, listener);
+    }
+
+    public off(kind: ResolutionEventKind, listener: ResolutionListener): void {
+        this.events.off(kind, listener);
+    }
+
+    public intercept(interceptor: Dependency<IInterceptor>, filter?: InterceptorFilter): void {
+        this.interceptors.register(interceptor, filter);
+        this.compiler.unlink();
+    }
+
+    public addConfig(source: IConfigSource | Record<string, unknown>): void {
+        this.config.add(typeof(source.load) === "function"
+            ? source as IConfigSource
+            : new ObjectConfigSource(source as Record<string, unknown>));
+    }
+
+    public decorate<T>(ref: Reference<T>, decorator: (inner: T, ...deps: unknown[]) => T | Promise<T>, deps: Dependency[] = []): void {
+        const type = Typing.type(ref);
+        const decorated = this.defRegistry.get(type) || Definition.makeType(type);
+        this.defRegistry.set(type, {
+            kind: Definition.Kind.Type,
+            type,
+            decorated,
+            factory: (inner: T, ...args: unknown[]) => decorator(inner, ...args),
+            args: deps.map((dep) => Definition.isDefinition(dep) ? dep : Typing.type(dep)),
+        });
+    }
+
+    public get<T>(type: Reference<T>, name?: string): Promise<T> {
+        const compiled = typeof(name) === "string" || this.observed() ? undefined : this.compiler.get<T>(Typing.type(type));
+        if (compiled) {
+            return compiled;
+        }
         const ctx = {
             stack: [],
-            shared: true,
         };
-        ctx.shared = true;
-        return this.depsProvider.get<T>(ctx, type);
+        return this.depsProvider.get<T>(ctx, this.dependency(type, name));
     }
 
-    public async create<T>(type: Reference, parameters: Record<string, unknown>): Promise<T> {
-        type = Typing.type(type);
+    public async create<T>(type: Reference<T>, nameOrParams?: string | Record<string, unknown>, parameters?: Record<string, unknown>): Promise<T> {
+        const named = typeof(nameOrParams) === "string";
         const ctx = {
             stack: [],
-            shared: false,
-            parameters,
+            scope: Scope.Transient,
+            parameters: named ? parameters : nameOrParams as Record<string, unknown>,
+        };
+        return this.depsProvider.get<T>(ctx, this.dependency(type, named ? nameOrParams as string : undefined));
+    }
+
+    public getSync<T>(type: Reference<T>, name?: string): T {
+        const ctx = {
+            stack: [],
+        };
+        return this.depsProvider.getSync<T>(ctx, this.dependency(type, name));
+    }
+
+    public createSync<T>(type: Reference<T>, nameOrParams?: string | Record<string, unknown>, parameters?: Record<string, unknown>): T {
+        const named = typeof(nameOrParams) === "string";
+        const ctx = {
+            stack: [],
+            scope: Scope.Transient,
+            parameters: named ? parameters : nameOrParams as Record<string, unknown>,
         };
-        return this.depsProvider.get<T>(ctx, type);
+        return this.depsProvider.getSync<T>(ctx, this.dependency(type, named ? nameOrParams as string : undefined));
+    }
+
+    private release(def: Definition | undefined): void {
+        if (Definition.isType(def)) {
+            this.discard(def);
+            this.release(def.decorated);
+        } else if (Definition.isConditional(def)) {
+            for (const candidate of def.candidates) {
+                this.release(candidate.definition);
+            }
+            this.release(def.fallback);
+        }
+    }
+
+    private releaseAll(def: Definition): void {
+        if (Definition.isType(def)) {
+            this.discard(def);
+        }
+        for (const nested of nestedOf(def)) {
+            if (Definition.isDefinition(nested)) {
+                this.releaseAll(nested);
+            }
+        }
+    }
+
+    private discard(def: Definition): void {
+        const instance = this.instRegistry.hasOwn(def) ? this.instRegistry.get(def) : undefined;
+        if (instance) {
+            this.instRegistry.delete(def);
+            if (!this.retained.has(instance)) {
+                instance.then((value) => this.disposables.release(value), () => undefined);
+            }
+        }
+    }
+
+    private observed(): boolean {
+        return Object.values(ResolutionEventKind).some((kind) => this.events.has(kind));
+    }
+
+    private dependency<T>(type: Reference<T>, name?: string): Type<T> | Definition.Reference<T> {
+        return typeof(name) === "string"
+            ? Definition.makeNamed(Typing.type(type), name)
+            : Typing.type(type);
+    }
+
+    private recordChanges(definitions: Map<Type, Definition>, elements: Map<Type, Array<unknown>>): ModuleRecord {
+        const record: ModuleRecord = {definitions: [], tags: []};
+        for (const [type, def] of this.defRegistry) {
+            if (definitions.get(type) === def) {
+                continue;
+            }
+            if (elements.has(type) && collectionOf(def) && def.kind === definitions.get(type).kind) {
+                const before = elements.get(type);
+                for (const elem of collectionOf(def)) {
+                    if (!before.includes(elem)) {
+                        record.tags.push([type, elem]);
+                    }
+                }
+            } else {
+                record.definitions.push([type, def, definitions.get(type)]);
+            }
+        }
+        return record;
+    }
+
+    private removeRecord(record: ModuleRecord): void {
+        for (const [type, def, previous] of record.definitions) {
+            if (this.defRegistry.hasOwn(type) && this.defRegistry.get(type) === def) {
+                if (previous) {
+                    this.defRegistry.set(type, previous);
+                } else {
+                    this.defRegistry.delete(type);
+                }
+            }
+            if (previous) {
+                this.release(def);
+            } else {
+                this.releaseAll(def);
+            }
+        }
+        for (const [type, elem] of record.tags) {
+            const def = this.defRegistry.get(type);
+            const collection = def && collectionOf(def);
+            if (collection && collection.includes(elem)) {
+                this.defRegistry.set(type, withoutElement(def, elem));
+            }
+            if (Definition.isDefinition(elem)) {
+                this.releaseAll(elem);
+            }
+        }
     }
 }
@@ -0,0 +1,37 @@
+import { IContainerModule, IDependencyManager } from "./api";
+
+export interface ContainerModuleOptions {
+    name?: string;
+    dependencies?: IContainerModule[];
+    load?(manager: IDependencyManager): void | Promise<void>;
+    unload?(manager: IDependencyManager): void | Promise<void>;
+}
+
+export class ContainerModule implements IContainerModule {
+    public readonly name?: string;
+    public readonly dependencies: IContainerModule[];
+
+    public constructor(
+        private registration: (bind: IDependencyManager["bind"]) => void,
+        private options: ContainerModuleOptions = {},
+    ) {
+        this.name = options.name;
+        this.dependencies = options.dependencies || [];
+    }
+
+    public register(bind: IDependencyManager["bind"]): void {
+        this.registration(bind);
+    }
+
+    public async load(manager: IDependencyManager): Promise<void> {
+        if (this.options.load) {
+            await this.options.load(manager);
+        }
+    }
+
+    public async unload(manager: IDependencyManager): Promise<void> {
+        if (this.options.unload) {
+            await this.options.unload(manager);
+        }
+    }
+}
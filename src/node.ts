@@ -0,0 +1,84 @@
+/**
+ * Node.js-only helpers, kept out of the main entry point so browser bundles
+ * never pull in `fs` or `process`. Import them from "@saggitarius/di/node".
+ */
+import * as fs from "fs";
+import { Typing } from "@saggitarius/typing";
+import { ContainerDocument, IConfigSource } from "./api";
+import { parseDocument } from "./document";
+
+type ConfigTree = Record<string, unknown>;
+
+function isTree(value: unknown): value is ConfigTree {
+    return typeof(value) === "object" && value !== null && !Array.isArray(value);
+}
+
+@Typing.register("@saggitarius/di/node::JsonFileConfigSource")
+export class JsonFileConfigSource implements IConfigSource {
+    private values?: Record<string, unknown>;
+
+    public constructor(
+        private path: string,
+        private optional = false,
+    ) {}
+
+    public load(): Record<string, unknown> {
+        if (!this.values) {
+            this.values = this.read();
+        }
+        return this.values;
+    }
+
+    private read(): Record<string, unknown> {
+        if (this.optional && !fs.existsSync(this.path)) {
+            return {};
+        }
+        let values: unknown;
+        try {
+            values = JSON.parse(fs.readFileSync(this.path, "utf8"));
+        } catch (err) {
+            throw new Error(`Cannot load config file "${this.path}": ${err instanceof Error ? err.message : err}`);
+        }
+        if (!isTree(values)) {
+            throw new Error(`Config file "${this.path}" must contain an object`);
+        }
+        return values;
+    }
+}
+
+@Typing.register("@saggitarius/di/node::EnvConfigSource")
+export class EnvConfigSource implements IConfigSource {
+    public constructor(
+        private prefix = "",
+        private separator = "__",
+        private env: Record<string, string | undefined> = process.env,
+        private mapKey: (key: string) => string = (key) => key,
+    ) {}
+
+    public load(): Record<string, unknown> {
+        const values: ConfigTree = {};
+        for (const [name, value] of Object.entries(this.env)) {
+            if (typeof(value) === "undefined" || !name.startsWith(this.prefix) || name === this.prefix) {
+                continue;
+            }
+            const path = name.slice(this.prefix.length).split(this.separator).map(this.mapKey);
+            let node = values;
+            for (const key of path.slice(0, -1)) {
+                node[key] = isTree(node[key]) ? node[key] : {};
+                node = node[key] as ConfigTree;
+            }
+            node[path[path.length - 1]] = value;
+        }
+        return values;
+    }
+}
+
+export function readDocument(path: string, parse: (text: string) => unknown = JSON.parse): ContainerDocument {
+    let text: string;
+    try {
+        text = fs.readFileSync(path, "utf8");
+    } catch (err) {
+        throw new Error(`Cannot load document "${path}": ${err instanceof Error ? err.message : err}`);
+    }
+    return parseDocument(text, parse, `document "${path}"`);
+}
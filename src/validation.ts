@@ -0,0 +1,225 @@
+import { Typing } from "@saggitarius/typing";
+import {
+    Dependency,
+    IContainerValidator,
+    IDefinitionResolver,
+    IInterceptorRegistry,
+    Scope,
+    ValidationIssue,
+    ValidationIssueKind,
+    ValidationReport,
+} from "./api";
+import { Definition } from "./definition";
+import { MissingBindingError, renderDependency, renderPath } from "./errors";
+import { DefinitionRegistry } from "./lib";
+
+interface Frame {
+    def: Definition;
+    props: boolean;
+}
+
+interface ValidationState {
+    issues: ValidationIssue[];
+    reported: Set<string>;
+    done: Set<Definition>;
+}
+
+@Typing.register("@saggitarius/di/validation::ContainerValidator")
+export class ContainerValidator implements IContainerValidator {
+    public constructor(
+        private registry: DefinitionRegistry,
+        private defResolver: IDefinitionResolver,
+        private interceptors: IInterceptorRegistry,
+    ) {}
+
+    public async validate(): Promise<ValidationReport> {
+        const state: ValidationState = {
+            issues: [],
+            reported: new Set(),
+            done: new Set(),
+        };
+        for (const [type, def] of this.registry.flatten()) {
+            if (!this.isStub(def)) {
+                await this.visit(state, type, [], false);
+            }
+        }
+        return {
+            valid: state.issues.length === 0,
+            issues: state.issues,
+        };
+    }
+
+    private async visit(state: ValidationState, dep: Dependency | undefined, frames: Frame[], optional: boolean): Promise<void> {
+        if (typeof(dep) === "undefined") {
+            return;
+        }
+        if (Definition.isParameter(dep) || Definition.isValue(dep) || Definition.isConfig(dep)) {
+            return;
+        }
+        if (Definition.isCollection(dep)) {
+            return this.visitCollection(state, dep, frames);
+        }
+        if (Definition.isOptional(dep)) {
+            return this.visit(state, dep.target, frames, true);
+        }
+        if (Definition.isLazy(dep) || Definition.isProvider(dep) || Definition.isFactory(dep)) {
+            return this.visit(state, dep.target, [], optional);
+        }
+
+        const path = frames.map((frame) => frame.def);
+        if (Definition.isReference(dep) && dep.tags && !await this.selects(dep, path)) {
+            if (!optional) {
+                this.report(state, ValidationIssueKind.MissingBinding, dep, path);
+            }
+            return;
+        }
+        const def = this.lookup(state, dep, path);
+        if (!def) {
+            return;
+        }
+        if (Definition.isConditional(def)) {
+            for (const candidate of def.candidates) {
+                await this.visit(state, candidate.definition, frames, optional);
+            }
+            if (def.candidates.length === 0 || !this.isStub(def.fallback)) {
+                await this.visit(state, def.fallback, frames, optional);
+            }
+            return;
+        }
+        const resolved = await this.defResolver.resolve({stack: []}, def);
+        if (Definition.isType(resolved) && !resolved.factory) {
+            if (!optional) {
+                const kind = this.registry.has(resolved.type) && !this.isStub(def)
+                    ? ValidationIssueKind.MissingFactory
+                    : ValidationIssueKind.MissingBinding;
+                this.report(state, kind, dep, path);
+            }
+            return;
+        }
+
+        const index = frames.findIndex((frame) => frame.def === def);
+        if (index >= 0) {
+            const frame = frames[index];
+            const published = frame.props && Definition.isType(def) && def.scope !== Scope.Transient;
+            if (!published) {
+                this.report(state, ValidationIssueKind.CyclicDependency, dep, path);
+            }
+            return;
+        }
+        if (state.done.has(def)) {
+            return;
+        }
+
+        const frame: Frame = {def, props: false};
+        frames = [...frames, frame];
+        if (Definition.isType(resolved)) {
+            await this.visit(state, resolved.decorated, frames, false);
+            for (const arg of resolved.args || []) {
+                await this.visit(state, arg, frames, false);
+            }
+            for (const interceptor of [...this.interceptors.get(resolved), ...(resolved.interceptors || [])]) {
+                await this.visit(state, interceptor, frames, false);
+            }
+            frame.props = true;
+            for (const prop of Object.values(resolved.props || {})) {
+                await this.visit(state, prop, frames, false);
+            }
+        } else if (Definition.isArray(resolved)) {
+            for (const elem of resolved.elements || []) {
+                await this.visit(state, elem, frames, false);
+            }
+        } else if (Definition.isMulti(resolved)) {
+            for (const member of resolved.members) {
+                await this.visit(state, member.dependency, frames, false);
+            }
+        } else if (Definition.isRecord(resolved)) {
+            for (const elem of Object.values(resolved.elements || {})) {
+                await this.visit(state, elem, frames, false);
+            }
+        } else {
+            await this.visit(state, resolved, frames, optional);
+        }
+        state.done.add(def);
+    }
+
+    private async visitCollection(state: ValidationState, dep: Definition.Collection, frames: Frame[]): Promise<void> {
+        const path = frames.map((frame) => frame.def);
+        const def = this.lookup(state, dep.target, path);
+        if (!def) {
+            return;
+        }
+        const resolved = Definition.isConditional(def) ? def : await this.defResolver.resolve({stack: []}, def);
+        if (!this.isCollection(resolved)) {
+            this.report(state, ValidationIssueKind.NotMultiBinding, dep, path);
+            return;
+        }
+        return this.visit(state, dep.target, frames, true);
+    }
+
+    private isCollection(def: Definition): boolean {
+        return Definition.isMulti(def) || Definition.isArray(def) || Definition.isConditional(def)
+            || (Definition.isType(def) && !def.factory);
+    }
+
+    private async selects(dep: Definition.Reference, path: Dependency[]): Promise<boolean> {
+        try {
+            await this.defResolver.resolve({stack: path}, dep);
+            return true;
+        } catch (err) {
+            if (err instanceof MissingBindingError) {
+                return false;
+            }
+            throw err;
+        }
+    }
+
+    private lookup(state: ValidationState, dep: Dependency, path: Dependency[]): Definition | undefined {
+        let type = Definition.isDefinition(dep) ? undefined : Typing.type(dep);
+        let def = type ? this.registry.get(type) : dep as Definition;
+        const aliases = [];
+        while (def && Definition.isReference(def)) {
+            if (aliases.includes(def)) {
+                this.report(state, ValidationIssueKind.CyclicDependency, dep, [...path, ...aliases]);
+                return undefined;
+            }
+            aliases.push(def);
+            type = def.target;
+            def = this.registry.get(type);
+        }
+        return def || Definition.makeType(type);
+    }
+
+    private isStub(def: Definition): boolean {
+        return Definition.isType(def)
+            && Object.keys(def).every((key) => key === "kind" || key === "type");
+    }
+
+    private report(state: ValidationState, kind: ValidationIssueKind, dep: Dependency, path: Dependency[]): void {
+        const key = kind === ValidationIssueKind.CyclicDependency
+            ? `${kind}:${renderPath([...path, dep])}`
+            : `${kind}:${renderDependency(dep)}`;
+        if (state.reported.has(key)) {
+            return;
+        }
+        state.reported.add(key);
+        state.issues.push({
+            kind,
+            dependency: dep,
+            path: [...path, dep],
+            message: this.describe(kind, [...path, dep]),
+        });
+    }
+
+    private describe(kind: ValidationIssueKind, path: Dependency[]): string {
+        switch (kind) {
+            case ValidationIssueKind.MissingBinding:
+                return `Missing binding (${renderPath(path)})`;
+            case ValidationIssueKind.MissingFactory:
+                return `Factory is not defined (${renderPath(path)})`;
+            case ValidationIssueKind.CyclicDependency:
+                return `Cyclic dependency (${renderPath(path)})`;
+            case ValidationIssueKind.NotMultiBinding:
+                return `Not a multi-binding (${renderPath(path)})`;
+        }
+    }
+}
@@ -0,0 +1,48 @@
+import { bootstrap } from "../src";
+
+describe("activation", () => {
+    it("runs activators after property injection", async () => {
+        class Db {
+            public config?: string;
+            public seen?: string;
+        }
+        const dm = bootstrap();
+        dm.bind("app::Config").toValue("config");
+        dm.bind("app::Db").toClass(Db).withProperty("config", "app::Config").onActivation((db) => {
+            db.seen = db.config;
+        });
+        const db = await dm.get<Db>("app::Db");
+        expect(db.seen).toBe("config");
+    });
+
+    it("publishes singletons only after initializers finish", async () => {
+        class Db {
+            public ready = false;
+            public async init(): Promise<void> {
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                this.ready = true;
+            }
+        }
+        const dm = bootstrap();
+        dm.bind("app::Db").toClass(Db).withInitializer("init");
+        const [a, b] = await Promise.all([dm.get<Db>("app::Db"), dm.get<Db>("app::Db")]);
+        expect(a).toBe(b);
+        expect(a.ready).toBe(true);
+    });
+
+    it("does not cache instances whose initializer failed", async () => {
+        let attempts = 0;
+        class Db {
+            public init(): void {
+                if (++attempts === 1) {
+                    throw new Error("init failed");
+                }
+            }
+        }
+        const dm = bootstrap();
+        dm.bind("app::Db").toClass(Db).withInitializer("init");
+        await expect(dm.get("app::Db")).rejects.toThrow("init failed");
+        await expect(dm.get("app::Db")).resolves.toBeInstanceOf(Db);
+        expect(attempts).toBe(2);
+    });
+});
@@ -0,0 +1,59 @@
+import { bootstrap, Definition, IDependencyManager } from "../src";
+
+class Foo {
+    public constructor(public name: string) {}
+}
+
+class Boo {
+    public constructor(public foo: Foo) {}
+}
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind("app::Foo").toClass(Foo).withArguments([Definition.makeValue("root")]);
+    dm.bind("app::Boo").toClass(Boo).withArguments(["app::Foo"]);
+    return dm;
+}
+
+describe("child containers", () => {
+    it("falls back to parent bindings", async () => {
+        const child = setup().createChild();
+        const boo = await child.get<Boo>("app::Boo");
+        expect(boo.foo.name).toBe("root");
+    });
+
+    it("keeps child bindings local", async () => {
+        const dm = setup();
+        const child = dm.createChild();
+        child.bind("app::Foo").toClass(Foo).withArguments([Definition.makeValue("child")]);
+        expect((await child.get<Boo>("app::Boo")).foo.name).toBe("child");
+        expect((await dm.get<Boo>("app::Boo")).foo.name).toBe("root");
+    });
+
+    it("reuses parent singletons until the child rebinds them", async () => {
+        const dm = setup();
+        const child = dm.createChild();
+        const foo = await dm.get("app::Foo");
+        expect(await child.get("app::Foo")).toBe(foo);
+        child.bind("app::Foo").toClass(Foo).withArguments([Definition.makeValue("child")]);
+        expect(await child.get("app::Foo")).not.toBe(foo);
+        expect(await dm.get("app::Foo")).toBe(foo);
+    });
+
+    it("keeps singletons created by the child local", async () => {
+        const dm = setup();
+        const child = dm.createChild();
+        const foo = await child.get("app::Foo");
+        expect(await dm.get("app::Foo")).not.toBe(foo);
+    });
+
+    it("resolves itself as IDependencyManager", async () => {
+        const dm = setup();
+        const child = dm.createChild();
+        child.bind("app::Foo").toClass(Foo).withArguments([Definition.makeValue("child")]);
+        const inner = await child.get(IDependencyManager);
+        expect(inner).not.toBe(dm);
+        expect((await inner.get<Foo>("app::Foo")).name).toBe("child");
+        expect(await inner.get("app::Foo")).toBe(await child.get("app::Foo"));
+    });
+});
@@ -0,0 +1,109 @@
+import { bootstrap, CompiledModule, CyclicDependencyError, Definition, IDependencyManager, ResolutionEventKind } from "../src";
+
+class Config {
+    public constructor(public n = 1) {}
+}
+
+class Repo {
+    public constructor(public config: Config, public tag: string) {}
+}
+
+class Svc {
+    public extra?: string;
+    public constructor(public repo: Repo, public plugins: unknown[], public options: unknown) {}
+}
+
+class Node {
+    public constructor(public next: unknown) {}
+}
+
+class Broken {
+    public constructor() {
+        throw new Error("boom");
+    }
+}
+
+function configure(dm: IDependencyManager): IDependencyManager {
+    dm.bind("app::Config").toClass(Config);
+    dm.bind("app::Repo").toClass(Repo).inTransientScope().withArguments(["app::Config", Definition.makeValue("t")]);
+    dm.bind("app::Alias").toType("app::Repo");
+    dm.bindMulti("app::Plugins").add("app::Config", {priority: 1}).add(Definition.makeValue(7), {priority: 5});
+    dm.bind("app::Svc").toClass(Svc).withArguments(["app::Alias", "app::Plugins", Definition.makeRecord({
+        port: Definition.makeConfig("port", {default: 80}),
+        v: Definition.makeValue(1),
+    })]).withProperty("extra", Definition.makeValue("x"));
+    dm.bind("app::Cycle1").toClass(Node).withArguments(["app::Cycle2"]);
+    dm.bind("app::Cycle2").toClass(Node).withArguments(["app::Cycle1"]);
+    dm.bind("app::Provider").toClass(Node).withArguments([Definition.makeProvider("app::Svc")]);
+    dm.bind("app::Broken").toClass(Broken);
+    dm.bind("app::Mid").toClass(Node).withArguments(["app::Broken"]);
+    dm.bind("app::Root").toClass(Node).withArguments(["app::Mid"]);
+    return dm;
+}
+
+function load(source: string): CompiledModule {
+    const module = {exports: {}};
+    new Function("module", "exports", source)(module, module.exports);
+    return module.exports as CompiledModule;
+}
+
+function compiled(): IDependencyManager {
+    const dm = configure(bootstrap());
+    dm.useCompiled(load(configure(bootstrap()).compile()));
+    return dm;
+}
+
+describe("compiled containers", () => {
+    it("resolves the same graph as the interpreter", async () => {
+        const dm = compiled();
+        const svc = await dm.get<Svc>("app::Svc");
+        const expected = await configure(bootstrap()).get<Svc>("app::Svc");
+        expect(JSON.stringify(svc)).toBe(JSON.stringify(expected));
+        expect(await dm.get("app::Svc")).toBe(svc);
+        const provider = (await dm.get<Node>("app::Provider")).next as () => Promise<Svc>;
+        expect(await provider()).toBe(svc);
+    });
+
+    it("keeps scopes and shares singletons with interpreted resolution", async () => {
+        const dm = compiled();
+        const first = await dm.get<Repo>("app::Repo");
+        const second = await dm.get<Repo>("app::Repo");
+        expect(first).not.toBe(second);
+        expect(first.config).toBe(second.config);
+        expect(await dm.get("app::Config")).toBe(first.config);
+    });
+
+    it("reports cycles and failures with the dependency path", async () => {
+        const dm = compiled();
+        await expect(dm.get("app::Cycle1")).rejects.toBeInstanceOf(CyclicDependencyError);
+        const message = "boom (app::Root -> Array<app::Mid> -> app::Mid -> Array<app::Broken> -> app::Broken)";
+        await expect(configure(bootstrap()).get("app::Root")).rejects.toThrow(message);
+        await expect(dm.get("app::Root")).rejects.toThrow(message);
+    });
+
+    it("emits the same resolution events", async () => {
+        const record = async (dm: IDependencyManager): Promise<string[]> => {
+            const events: string[] = [];
+            for (const kind of Object.values(ResolutionEventKind)) {
+                dm.on(kind, (event) => events.push(event.kind));
+            }
+            await dm.get("app::Repo");
+            await dm.get("app::Repo");
+            return events;
+        };
+        expect(await record(compiled())).toEqual(await record(configure(bootstrap())));
+    });
+
+    it("falls back to interpretation for rebound types", async () => {
+        const dm = compiled();
+        dm.bind("app::Config").toValue(new Config(99));
+        expect((await dm.get<Repo>("app::Repo")).config.n).toBe(99);
+    });
+
+    it("refuses modules compiled from different bindings", () => {
+        const source = configure(bootstrap()).compile();
+        const dm = configure(bootstrap());
+        dm.bind("app::Repo").toClass(Repo).inSingletonScope();
+        expect(() => dm.useCompiled(load(source))).toThrow("Compiled container does not match the binding of \"app::Repo\"");
+    });
+});
@@ -0,0 +1,81 @@
+import { Typing } from "@saggitarius/typing";
+import { AmbiguousBindingError, bootstrap, Definition, IDependencyManager, MissingBindingError } from "../src";
+
+class Console {}
+class File {}
+class Audit {}
+
+class Consumer {
+    public constructor(public logger: unknown) {}
+}
+
+const logger = Typing.type("app::Logger");
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind(logger).toClass(Console);
+    dm.bind(logger).whenInjectedInto("app::B").toClass(File);
+    dm.bind(logger).whenTagged("name", "audit").toClass(Audit);
+    dm.bind("app::A").toClass(Consumer).withArguments([logger]);
+    dm.bind("app::B").toClass(Consumer).withArguments([logger]);
+    dm.bind("app::C").toClass(Consumer).withArguments([Definition.makeTagged(logger, {name: "audit"})]);
+    return dm;
+}
+
+describe("conditional bindings", () => {
+    it("selects the binding matching the consumer or tags", async () => {
+        const dm = setup();
+        expect((await dm.get<Consumer>("app::A")).logger).toBeInstanceOf(Console);
+        expect((await dm.get<Consumer>("app::B")).logger).toBeInstanceOf(File);
+        expect((await dm.get<Consumer>("app::C")).logger).toBeInstanceOf(Audit);
+        expect(await dm.get(logger)).toBeInstanceOf(Console);
+    });
+
+    it("matches the consumer through aliases", async () => {
+        const dm = setup();
+        dm.bind("app::ILogger").toType(logger);
+        dm.bind("app::D").toClass(Consumer).withArguments(["app::ILogger"]);
+        dm.bind("app::E").toClass(Consumer).withArguments(["app::ILogger"]);
+        dm.bind(logger).whenInjectedInto("app::D").toClass(File);
+        expect((await dm.get<Consumer>("app::E")).logger).toBeInstanceOf(Console);
+        expect((await dm.get<Consumer>("app::D")).logger).toBeInstanceOf(File);
+    });
+
+    it("matches the consumer through providers, factories, lazy thunks and iterators", async () => {
+        const dm = setup();
+        dm.bind("app::Plugins").toArray([logger]);
+        dm.bind("app::B").toClass(Consumer).withArguments([Definition.makeProvider(logger)]);
+        const provider = (await dm.create<Consumer>("app::B")).logger as () => Promise<unknown>;
+        expect(await provider()).toBeInstanceOf(File);
+        dm.bind("app::B").toClass(Consumer).withArguments([Definition.makeFactory(logger)]);
+        const factory = (await dm.create<Consumer>("app::B")).logger as () => Promise<unknown>;
+        expect(await factory()).toBeInstanceOf(File);
+        dm.bind("app::B").toClass(Consumer).withArguments([Definition.makeLazy(logger)]);
+        const thunk = (await dm.create<Consumer>("app::B")).logger as () => Promise<unknown>;
+        expect(await thunk()).toBeInstanceOf(File);
+        const plugins = Typing.type("app::Plugins");
+        dm.bind("app::B").toClass(Consumer)
+            .withArguments([Definition.makeCollection(plugins, Definition.CollectionFormat.Iterator)]);
+        const iterator = (await dm.create<Consumer>("app::B")).logger as AsyncIterable<unknown>;
+        const items = [];
+        for await (const item of iterator) {
+            items.push(item);
+        }
+        expect(items).toEqual([expect.any(File)]);
+    });
+
+    it("rejects ambiguous matches", async () => {
+        const dm = setup();
+        dm.bind(logger).when((ctx) => !!ctx.parent && Typing.nameOf(ctx.parent.type) === "app::B").toClass(Audit);
+        await expect(dm.create("app::B")).rejects.toBeInstanceOf(AmbiguousBindingError);
+        await expect(dm.create("app::B")).rejects.toThrow("Ambiguous binding, 2 candidates match (app::B -> Array<app::Logger> -> app::Logger)");
+    });
+
+    it("fails when no condition matches and there is no fallback", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Only").whenInjectedInto("app::F").when(() => true).toValue(42);
+        dm.bind("app::F").toClass(Consumer).withArguments(["app::Only"]);
+        expect((await dm.get<Consumer>("app::F")).logger).toBe(42);
+        await expect(dm.get("app::Only")).rejects.toBeInstanceOf(MissingBindingError);
+    });
+});
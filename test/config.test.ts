@@ -0,0 +1,84 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { bootstrap, ConfigError, Definition, IDependencyManager } from "../src";
+import { EnvConfigSource, JsonFileConfigSource } from "../src/node";
+
+class Db {
+    public constructor(public host: string, public port: number, public debug: boolean) {}
+}
+
+class Holder {
+    public constructor(public value: unknown) {}
+}
+
+let dir: string;
+
+beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "di-config-"));
+    fs.writeFileSync(path.join(dir, "app.json"), JSON.stringify({db: {host: "file-host", port: "6000"}, debug: "yes"}));
+});
+
+afterAll(() => {
+    fs.rmdirSync(dir, {recursive: true});
+});
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.addConfig({db: {host: "localhost"}});
+    dm.addConfig(new JsonFileConfigSource(path.join(dir, "app.json")));
+    dm.addConfig(new EnvConfigSource("APP_", "__", {APP_DB__USER: "env", OTHER: "x"}, (key) => key.toLowerCase()));
+    return dm;
+}
+
+describe("configuration", () => {
+    it("injects coerced values from layered sources", async () => {
+        const dm = setup();
+        dm.bind("app::Db").toClass(Db).withArguments([
+            Definition.makeConfig("db.host"),
+            Definition.makeConfig("db.port", {type: "number", default: 5432}),
+            Definition.makeConfig("debug", {type: "boolean"}),
+        ]);
+        const db = await dm.get<Db>("app::Db");
+        expect([db.host, db.port, db.debug]).toEqual(["file-host", 6000, true]);
+    });
+
+    it("injects whole sections", async () => {
+        const dm = setup();
+        dm.bind("app::Raw").toClass(Holder).withArguments([Definition.makeConfig("db", {type: "section"})]);
+        dm.bind("app::Typed").toClass(Holder).withArguments([Definition.makeConfigSection("db", {
+            port: {type: "number"},
+            timeout: {type: "number", default: 30},
+            user: {},
+        })]);
+        expect(dm.getSync<Holder>("app::Raw").value).toEqual({host: "file-host", port: "6000", user: "env"});
+        expect((await dm.get<Holder>("app::Typed")).value).toEqual({port: 6000, timeout: 30, user: "env"});
+    });
+
+    it("names the consumer of invalid and missing values", async () => {
+        const dm = setup().createChild();
+        dm.addConfig({db: {port: "abc"}});
+        dm.bind("app::Bad").toClass(Holder).withArguments([Definition.makeConfig("db.port", {type: "number"})]);
+        dm.bind("app::Missing").toClass(Holder).withArguments([Definition.makeConfig("nope.x")]);
+        await expect(dm.get("app::Bad")).rejects.toBeInstanceOf(ConfigError);
+        await expect(dm.get("app::Bad")).rejects.toThrow(
+            "Invalid config value \"db.port\": expected number, got \"abc\" (app::Bad -> Array<Config<db.port>> -> Config<db.port>)",
+        );
+        expect(() => dm.getSync("app::Missing")).toThrow(
+            "Missing config value \"nope.x\" (app::Missing -> Array<Config<nope.x>> -> Config<nope.x>)",
+        );
+    });
+
+    it("keeps environment key case unless mapped", () => {
+        const env = {APP_apiKey: "k", APP_Db__Host: "h", OTHER: "x"};
+        expect(new EnvConfigSource("APP_", "__", env).load()).toEqual({apiKey: "k", Db: {Host: "h"}});
+        expect(new EnvConfigSource("APP_", "__", env, (key) => key.toLowerCase()).load())
+            .toEqual({apikey: "k", db: {host: "h"}});
+    });
+
+    it("reports unreadable config files unless optional", () => {
+        const missing = path.join(dir, "missing.json");
+        expect(new JsonFileConfigSource(missing, true).load()).toEqual({});
+        expect(() => new JsonFileConfigSource(missing).load()).toThrow(`Cannot load config file "${missing}"`);
+    });
+});
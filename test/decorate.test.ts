@@ -0,0 +1,79 @@
+import { bootstrap, ContainerModule } from "../src";
+
+interface Finder {
+    find(): string;
+}
+
+class Repo implements Finder {
+    public find(): string {
+        return "db";
+    }
+}
+
+class Cache implements Finder {
+    public constructor(private inner: Finder, private tag: string) {}
+    public find(): string {
+        return `${this.tag}(${this.inner.find()})`;
+    }
+}
+
+describe("decorators over bindings", () => {
+    it("stacks decorators in registration order with their own dependencies", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Repo").toClass(Repo);
+        dm.bind("app::Tag").toValue("cache");
+        dm.decorate<Finder>("app::Repo", (inner, tag) => new Cache(inner, tag as string), ["app::Tag"]);
+        dm.decorate<Finder>("app::Repo", async (inner) => ({find: () => `log:${inner.find()}`}));
+        const repo = await dm.get<Finder>("app::Repo");
+        expect(repo.find()).toBe("log:cache(db)");
+        expect(await dm.get("app::Repo")).toBe(repo);
+    });
+
+    it("decorates values and aliases", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Value").toValue(5);
+        dm.decorate<number>("app::Value", (value) => value * 2);
+        dm.bind("app::Alias").toType("app::Value");
+        dm.decorate<number>("app::Alias", (value) => value + 1);
+        expect(await dm.get("app::Value")).toBe(10);
+        expect(await dm.get("app::Alias")).toBe(11);
+    });
+
+    it("keeps the scope of the decorated binding", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Repo").toClass(Repo).inTransientScope();
+        dm.decorate<Finder>("app::Repo", (inner) => new Cache(inner, "t"));
+        const first = await dm.get<Finder>("app::Repo");
+        expect(first).toBeInstanceOf(Cache);
+        expect(await dm.get("app::Repo")).not.toBe(first);
+    });
+
+    it("applies decorators registered before the binding", async () => {
+        const dm = bootstrap();
+        dm.decorate<string>("app::Late", (value) => `decorated ${value}`);
+        dm.bind("app::Late").toValue("late");
+        expect(await dm.get("app::Late")).toBe("decorated late");
+    });
+
+    it("removes decorators with the module that added them", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Value").toValue(10);
+        const module = new ContainerModule(() => undefined, {
+            load: (manager) => manager.decorate<number>("app::Value", (value) => -value),
+        });
+        await dm.load(module);
+        expect(await dm.createChild().get("app::Value")).toBe(-10);
+        await dm.unload(module);
+        expect(await dm.createChild().get("app::Value")).toBe(10);
+    });
+
+    it("keeps child decorators local", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Value").toValue(10);
+        const child = dm.createChild();
+        child.decorate<number>("app::Value", (value) => value + 100);
+        child.bind("app::Value").toValue(1);
+        expect(await child.get("app::Value")).toBe(101);
+        expect(await dm.get("app::Value")).toBe(10);
+    });
+});
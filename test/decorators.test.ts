@@ -0,0 +1,52 @@
+import { bootstrap, IDependencyManager, Inject, Injectable } from "../src";
+
+@Injectable("app::Dep")
+class Dep {}
+
+class Base {
+    @Inject("app::Config")
+    public config?: unknown;
+}
+
+@Injectable("app::Svc")
+class Svc extends Base {
+    @Inject(IDependencyManager)
+    public manager?: IDependencyManager;
+
+    public constructor(@Inject(Dep) public dep: Dep, @Inject("app::Name") public name: string) {
+        super();
+    }
+}
+
+class Impl {
+    public constructor(@Inject(Dep) public dep: Dep) {}
+}
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind("app::Name").toValue("svc");
+    dm.bind("app::Config").toValue({debug: true});
+    return dm;
+}
+
+describe("decorators", () => {
+    it("builds unbound injectable classes from metadata", async () => {
+        const svc = await setup().get<Svc>("app::Svc");
+        expect(svc.dep).toBeInstanceOf(Dep);
+        expect(svc.name).toBe("svc");
+        expect(svc.config).toEqual({debug: true});
+        expect(svc.manager).toBeDefined();
+    });
+
+    it("uses metadata for classes bound without arguments", async () => {
+        const dm = setup();
+        dm.bind("app::Impl").toClass(Impl);
+        expect((await dm.get<Impl>("app::Impl")).dep).toBeInstanceOf(Dep);
+    });
+
+    it("resolves injectable classes from child containers", async () => {
+        const child = setup().createChild();
+        child.bind("app::Name").toValue("child");
+        expect((await child.get<Svc>("app::Svc")).name).toBe("child");
+    });
+});
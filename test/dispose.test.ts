@@ -0,0 +1,64 @@
+import { bootstrap, DisposalError } from "../src";
+
+describe("disposal", () => {
+    it("tears down instances in reverse creation order", async () => {
+        const log: string[] = [];
+        class A {
+            public dispose(): void {
+                log.push("A");
+            }
+        }
+        class B {
+            public constructor(public a: A) {}
+            public async dispose(): Promise<void> {
+                await null;
+                log.push("B");
+            }
+        }
+        const dm = bootstrap();
+        dm.bind("app::A").toClass(A);
+        dm.bind("app::B").toClass(B).withArguments(["app::A"]);
+        dm.bind("app::C").toClass(A).onDispose(() => {
+            log.push("C");
+        });
+        await dm.get("app::B");
+        await dm.get("app::C");
+        await dm.dispose();
+        expect(log).toEqual(["C", "B", "A"]);
+    });
+
+    it("aggregates teardown errors", async () => {
+        const log: string[] = [];
+        class Bad {
+            public dispose(): void {
+                throw new Error("boom");
+            }
+        }
+        const dm = bootstrap();
+        dm.bind("app::Bad").toClass(Bad).inTransientScope();
+        dm.bind("app::Good").toClass(Bad).onDispose(() => {
+            log.push("good");
+        });
+        await dm.get("app::Bad");
+        await dm.get("app::Good");
+        const err = await dm.dispose().catch((e) => e);
+        expect(err).toBeInstanceOf(DisposalError);
+        expect(err.errors.map((e: Error) => e.message)).toEqual(["boom"]);
+        expect(log).toEqual(["good"]);
+    });
+
+    it("tears down scoped instances when the scope closes", async () => {
+        const log: string[] = [];
+        class Session {}
+        const dm = bootstrap();
+        dm.bind("app::Session").toClass(Session).inScope("request").onDispose(() => {
+            log.push("session");
+        });
+        dm.openScope("request");
+        await dm.get("app::Session");
+        await dm.closeScope("request");
+        expect(log).toEqual(["session"]);
+        await dm.dispose();
+        expect(log).toEqual(["session"]);
+    });
+});
@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Typing } from "@saggitarius/typing";
+import { bootstrap, ContainerDocument, Definition, DocumentModule, IDependencyManager, parseDocument } from "../src";
+import { readDocument } from "../src/node";
+
+@Typing.register("app::ConsoleLogger")
+class ConsoleLogger {
+    public constructor(public level: string) {}
+}
+
+@Typing.register("app::FileLogger")
+class FileLogger {
+    public constructor(public path: string) {}
+}
+
+@Typing.register("app::Svc")
+class Svc {
+    public constructor(public logger: unknown, public options: unknown) {}
+}
+
+const document: ContainerDocument = {
+    bindings: {
+        "app::Logger": {
+            kind: "type",
+            class: "app::FileLogger",
+            args: [{kind: "value", value: "/var/log"}],
+            tags: ["app::Plugins", {type: "app::Named", name: "file"}],
+        },
+        "app::Port": {kind: "value", value: 8080},
+        "app::Ref": "app::Port",
+    },
+};
+
+function setup(): IDependencyManager {
+    const dm = bootstrap().createChild();
+    dm.bind("app::Logger").toClass(ConsoleLogger).withArguments([Definition.makeValue("info")]);
+    dm.bind("app::Svc").toClass(Svc).withArguments(["app::Logger", Definition.makeRecord({
+        retries: Definition.makeValue(3),
+        port: Definition.makeConfig("port", {type: "number", default: 1}),
+    })]);
+    dm.bindMulti("app::Plugins").add(ConsoleLogger, {priority: 2, name: "c"});
+    return dm;
+}
+
+describe("container documents", () => {
+    it("loads bindings, references and tags and unloads them again", async () => {
+        const dm = setup();
+        dm.bind("app::NamedRecord").toClass(Svc).withArguments([
+            Definition.makeCollection(Typing.type("app::Named"), Definition.CollectionFormat.Record),
+        ]);
+        const module = new DocumentModule(document, {classes: [FileLogger]});
+        await dm.load(module);
+        const svc = await dm.createChild().get<Svc>("app::Svc");
+        expect(svc.logger).toEqual(new FileLogger("/var/log"));
+        expect(svc.options).toEqual({retries: 3, port: 1});
+        expect(await dm.get("app::Ref")).toBe(8080);
+        expect(await dm.get<unknown[]>("app::Plugins")).toEqual([expect.any(ConsoleLogger), expect.any(FileLogger)]);
+        expect((await dm.get<Svc>("app::NamedRecord")).logger).toEqual({file: expect.any(FileLogger)});
+        await dm.unload(module);
+        expect((await dm.createChild().get<Svc>("app::Svc")).logger).toEqual(new ConsoleLogger("info"));
+    });
+
+    it("exports the registry and skips what it cannot represent", async () => {
+        const dm = setup();
+        dm.bind("app::Alias").toType("app::Logger");
+        dm.bind("app::Fn").toFactory(() => 1);
+        const exported = dm.exportDocument();
+        expect(exported.skipped).toEqual(["app::Fn: factory functions cannot be exported"]);
+        expect(exported.document.bindings["app::Alias"]).toEqual({kind: "reference", target: "app::Logger"});
+        expect(exported.document.bindings["app::Logger"]).toEqual({
+            kind: "type",
+            class: "app::ConsoleLogger",
+            args: [{kind: "value", value: "info"}],
+        });
+
+        const copy = bootstrap().createChild();
+        await copy.load(new DocumentModule(exported.document, {classes: [ConsoleLogger, Svc]}));
+        const svc = await copy.get<Svc>("app::Svc");
+        expect(svc.logger).toEqual(new ConsoleLogger("info"));
+        expect(svc.options).toEqual({retries: 3, port: 1});
+        expect(await copy.get("app::Plugins")).toHaveLength(1);
+    });
+
+    it("reports unknown classes and kinds with their location", async () => {
+        const dm = bootstrap();
+        await expect(dm.load(new DocumentModule({bindings: {x: {kind: "type", class: "app::Nope"}}})))
+            .rejects.toThrow("Unknown class \"app::Nope\" at bindings.x.class");
+        await expect(dm.load(new DocumentModule({bindings: {x: {kind: "weird"}}})))
+            .rejects.toThrow("Unsupported definition kind \"weird\" at bindings.x");
+    });
+
+    it("parses documents from text and files", () => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "di-document-")), "container.json");
+        fs.writeFileSync(file, JSON.stringify(document));
+        expect(readDocument(file)).toEqual(document);
+        expect(parseDocument(JSON.stringify(document))).toEqual(document);
+        expect(() => parseDocument("{}")).toThrow("Invalid document: missing \"bindings\" object");
+        expect(() => readDocument(`${file}.missing`)).toThrow(`Cannot load document "${file}.missing"`);
+        fs.unlinkSync(file);
+    });
+});
@@ -0,0 +1,45 @@
+import { bootstrap, CyclicDependencyError, IDependencyManager, MissingBindingError, ResolutionError } from "../src";
+
+class Node {
+    public constructor(public next?: unknown) {}
+}
+
+class Broken {
+    public constructor() {
+        throw new Error("ctor failed");
+    }
+}
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind("app::A").toClass(Node).withArguments(["app::B"]);
+    dm.bind("app::B").toClass(Node).withArguments(["app::A"]).inTransientScope();
+    dm.bind("app::C").toClass(Node).withArguments(["app::X"]);
+    dm.bind("app::D").toClass(Broken);
+    dm.bind("app::E").toClass(Node).withArguments(["app::D"]);
+    return dm;
+}
+
+describe("resolution errors", () => {
+    it("reports cycles with the dependency path", async () => {
+        const result = setup().get("app::A");
+        await expect(result).rejects.toBeInstanceOf(CyclicDependencyError);
+        await expect(result).rejects.toBeInstanceOf(ResolutionError);
+        await expect(result).rejects.toThrow(
+            "Cyclic dependency (app::A -> Array<app::B> -> app::B -> Array<app::A> -> app::A)",
+        );
+    });
+
+    it("reports missing bindings with the dependency path", async () => {
+        const result = setup().get("app::C");
+        await expect(result).rejects.toBeInstanceOf(MissingBindingError);
+        await expect(result).rejects.toThrow("Missing binding (app::C -> Array<app::X> -> app::X)");
+    });
+
+    it("wraps construction failures and keeps the cause", async () => {
+        const result = setup().get("app::E");
+        await expect(result).rejects.toBeInstanceOf(ResolutionError);
+        await expect(result).rejects.toThrow("ctor failed (app::E -> Array<app::D> -> app::D)");
+        await expect(result).rejects.toMatchObject({cause: {message: "ctor failed"}});
+    });
+});
@@ -0,0 +1,78 @@
+import { bootstrap, Definition, IDependencyManager, ResolutionEvent, ResolutionEventKind } from "../src";
+
+class A {
+    public constructor(public b: B) {}
+}
+
+class B {}
+
+function setup(events: ResolutionEvent[]): IDependencyManager {
+    const dm = bootstrap().createChild();
+    dm.bind("app::A").toClass(A).withArguments(["app::B"]);
+    dm.bind("app::B").toFactory(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        return new B();
+    });
+    for (const kind of Object.values(ResolutionEventKind)) {
+        dm.on(kind, (event) => events.push(event));
+    }
+    return dm;
+}
+
+function describeEvent(event: ResolutionEvent): string {
+    const dependency = Definition.isDefinition(event.dependency) ? event.dependency.kind : "reference";
+    return `${event.kind}:${event.depth}:${dependency}`;
+}
+
+describe("resolution events", () => {
+    it("reports nested resolutions and created instances", async () => {
+        const events: ResolutionEvent[] = [];
+        await setup(events).get("app::A");
+        expect(events.map(describeEvent)).toEqual([
+            "beforeResolve:0:reference",
+            "beforeResolve:1:array",
+            "beforeResolve:2:reference",
+            "instanceCreated:2:type",
+            "afterResolve:2:reference",
+            "afterResolve:1:array",
+            "instanceCreated:0:type",
+            "afterResolve:0:reference",
+        ]);
+    });
+
+    it("reports timings of slow factories", async () => {
+        const events: ResolutionEvent[] = [];
+        await setup(events).get("app::A");
+        const created = events.filter((event) => event.kind === ResolutionEventKind.InstanceCreated);
+        expect(created[0].duration).toBeGreaterThanOrEqual(25);
+        expect(created[0].instance).toBeInstanceOf(B);
+        expect(created[1].instance).toBeInstanceOf(A);
+    });
+
+    it("reports cache hits and failures", async () => {
+        const events: ResolutionEvent[] = [];
+        const dm = setup(events);
+        await dm.get("app::A");
+        events.length = 0;
+        await dm.get("app::A");
+        await dm.get("app::Missing").catch(() => undefined);
+        expect(events.map(describeEvent)).toEqual([
+            "beforeResolve:0:reference",
+            "cacheHit:0:type",
+            "afterResolve:0:reference",
+            "beforeResolve:0:reference",
+            "resolutionFailed:0:reference",
+        ]);
+        expect(events[4].error).toBeInstanceOf(Error);
+    });
+
+    it("stops notifying removed listeners", async () => {
+        const listener = jest.fn();
+        const dm = bootstrap();
+        dm.bind("app::B").toClass(B);
+        dm.on(ResolutionEventKind.BeforeResolve, listener);
+        dm.off(ResolutionEventKind.BeforeResolve, listener);
+        await dm.get("app::B");
+        expect(listener).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,74 @@
+import { bootstrap, Definition, DependencyGraph, GraphEdgeKind, lazy, renderDot, renderJson } from "../src";
+
+class B {}
+
+class A {
+    public b?: B;
+    public constructor(public first: B, public count: number, public next: () => Promise<unknown>) {}
+}
+
+function appGraph(): DependencyGraph {
+    const dm = bootstrap().createChild();
+    dm.bind("app::A").toClass(A).withArguments(["app::B", Definition.makeValue(3), lazy("app::X")])
+        .withProperty("b", "app::B").tag("app::Plugins");
+    dm.bind("app::B").toClass(B).inTransientScope().tag("app::Plugins");
+    dm.bind("app::IB").toType("app::B");
+    dm.bind("app::Cfg").toRecord({port: Definition.makeValue(1)});
+    const graph = dm.graph();
+    return {
+        nodes: graph.nodes.filter((node) => node.id.startsWith("app::")),
+        edges: graph.edges.filter((edge) => edge.from.startsWith("app::")),
+    };
+}
+
+describe("dependency graph", () => {
+    it("has a node for every definition", () => {
+        const nodes = appGraph().nodes.map((node) => `${node.id}:${node.kind}`);
+        expect(nodes).toEqual([
+            "app::A:type",
+            "app::A/argument/1:value",
+            "app::A/argument/2:lazy",
+            "app::B:type",
+            "app::Cfg:record",
+            "app::Cfg/element/port:value",
+            "app::IB:reference",
+            "app::Plugins:multi",
+            "app::X:unbound",
+        ]);
+    });
+
+    it("has edges for arguments, properties, elements, aliases and tags", () => {
+        const edges = appGraph().edges.map((edge) => `${edge.from} ${edge.kind} ${edge.to}`);
+        expect(edges).toEqual([
+            `app::A ${GraphEdgeKind.Argument} app::B`,
+            `app::A ${GraphEdgeKind.Argument} app::A/argument/1`,
+            `app::A ${GraphEdgeKind.Argument} app::A/argument/2`,
+            `app::A ${GraphEdgeKind.Property} app::B`,
+            `app::A/argument/2 ${GraphEdgeKind.Target} app::X`,
+            `app::Cfg ${GraphEdgeKind.Element} app::Cfg/element/port`,
+            `app::IB ${GraphEdgeKind.Alias} app::B`,
+            `app::Plugins ${GraphEdgeKind.Tag} app::A`,
+            `app::Plugins ${GraphEdgeKind.Tag} app::B`,
+        ]);
+    });
+
+    it("only has edges between known nodes", () => {
+        const graph = bootstrap().graph();
+        const ids = new Set(graph.nodes.map((node) => node.id));
+        expect(graph.edges.every((edge) => ids.has(edge.from) && ids.has(edge.to))).toBe(true);
+    });
+
+    it("renders DOT", () => {
+        const dot = renderDot(appGraph());
+        expect(dot.startsWith("digraph \"dependencies\" {\n")).toBe(true);
+        expect(dot).toContain("    \"app::B\" [label=\"app::B\\n(transient)\", shape=box];\n");
+        expect(dot).toContain("    \"app::X\" [label=\"app::X\", shape=box, color=red];\n");
+        expect(dot).toContain("    \"app::IB\" -> \"app::B\" [label=\"alias\", style=bold];\n");
+    });
+
+    it("renders stable JSON", () => {
+        const graph = appGraph();
+        expect(JSON.parse(renderJson(graph))).toEqual(graph);
+        expect(renderJson(appGraph())).toBe(renderJson(graph));
+    });
+});
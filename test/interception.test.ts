@@ -0,0 +1,103 @@
+import { Typing } from "@saggitarius/typing";
+import { bootstrap, Definition, IInterceptor, Invocation } from "../src";
+
+class Repo {
+    public calls = 0;
+    public peer?: Peer;
+    public find(id: string): string {
+        ++this.calls;
+        return `found ${id}`;
+    }
+    public async load(id: number): Promise<number> {
+        await null;
+        return id * 2;
+    }
+    public outer(): string {
+        return this.find("inner");
+    }
+    public fail(): void {
+        throw new Error("boom");
+    }
+}
+
+class Peer {
+    public repo?: Repo;
+}
+
+class Tracer implements IInterceptor {
+    public constructor(public log: string[]) {}
+    public intercept(invocation: Invocation): unknown {
+        this.log.push(String(invocation.method));
+        return invocation.next();
+    }
+}
+
+const increment: IInterceptor = {
+    intercept(invocation: Invocation): unknown {
+        invocation.args = invocation.args.map((arg) => typeof(arg) === "number" ? arg + 1 : arg);
+        return invocation.next();
+    },
+};
+
+describe("interceptors", () => {
+    it("wraps method calls including async methods", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Log").toValue([]);
+        dm.bind("app::Tracer").toClass(Tracer).withArguments(["app::Log"]);
+        dm.bind("app::Repo").toClass(Repo).intercept("app::Tracer").intercept(Definition.makeValue(increment));
+        const repo = await dm.get<Repo>("app::Repo");
+        expect(repo).toBeInstanceOf(Repo);
+        expect(repo.find("a")).toBe("found a");
+        expect(await repo.load(1)).toBe(4);
+        expect(() => repo.fail()).toThrow("boom");
+        expect(repo.calls).toBe(1);
+        expect(await dm.get("app::Log")).toEqual(["find", "load", "fail"]);
+    });
+
+    it("intercepts calls made through this", async () => {
+        const log: string[] = [];
+        const dm = bootstrap();
+        dm.bind("app::Repo").toClass(Repo).intercept(Definition.makeValue(new Tracer(log)));
+        const repo = await dm.get<Repo>("app::Repo");
+        expect(repo.outer()).toBe("found inner");
+        expect(log).toEqual(["outer", "find"]);
+    });
+
+    it("applies container interceptors to shared and transient instances", async () => {
+        const log: string[] = [];
+        const dm = bootstrap();
+        dm.bind("app::Tracer").toValue(new Tracer(log));
+        dm.bind("app::Repo").toClass(Repo);
+        dm.bind("app::Transient").toClass(Repo).inTransientScope();
+        dm.intercept("app::Tracer", (def) => Typing.nameOf(def.type).startsWith("app::"));
+        (await dm.get<Repo>("app::Repo")).find("a");
+        (await dm.create<Repo>("app::Transient")).find("b");
+        expect(log).toEqual(["find", "find"]);
+        expect(await dm.get("app::Repo")).toBe(await dm.get("app::Repo"));
+    });
+
+    it("injects properties and runs activators on the target", async () => {
+        const log: string[] = [];
+        const dm = bootstrap();
+        dm.bind("app::Peer").toClass(Peer);
+        dm.bind("app::Repo").toClass(Repo).withProperty("peer", "app::Peer")
+            .intercept(Definition.makeValue(new Tracer(log)))
+            .onActivation((repo) => {
+                repo.find("activation");
+            });
+        const repo = await dm.get<Repo>("app::Repo");
+        expect(repo.peer).toBeInstanceOf(Peer);
+        expect(repo.calls).toBe(1);
+        expect(log).toEqual([]);
+    });
+
+    it("hands the proxy to dependencies in a cycle", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Peer").toClass(Peer).withProperty("repo", "app::Repo");
+        dm.bind("app::Repo").toClass(Repo).withProperty("peer", "app::Peer")
+            .intercept(Definition.makeValue(increment));
+        const repo = await dm.get<Repo>("app::Repo");
+        expect(repo.peer.repo).toBe(repo);
+        expect(await repo.peer.repo.load(1)).toBe(4);
+    });
+});
@@ -0,0 +1,39 @@
+import { bootstrap, lazy } from "../src";
+
+class A {
+    public constructor(public b: () => Promise<B>) {}
+}
+
+class B {
+    public constructor(public a: A) {}
+}
+
+describe("lazy dependencies", () => {
+    it("breaks construction-time cycles", async () => {
+        const dm = bootstrap();
+        dm.bind("app::A").toClass(A).withArguments([lazy("app::B")]);
+        dm.bind("app::B").toClass(B).withArguments(["app::A"]);
+        const a = await dm.get<A>("app::A");
+        const b = await a.b();
+        expect(b.a).toBe(a);
+        expect(await a.b()).toBe(b);
+        expect(await dm.get("app::B")).toBe(b);
+    });
+
+    it("resolves the target only on first use", async () => {
+        let created = 0;
+        class Heavy {
+            public constructor() {
+                ++created;
+            }
+        }
+        const dm = bootstrap();
+        dm.bind("app::Heavy").toClass(Heavy).inTransientScope();
+        dm.bind("app::A").toClass(A).withArguments([lazy("app::Heavy")]);
+        const a = await dm.get<A>("app::A");
+        expect(created).toBe(0);
+        await a.b();
+        await a.b();
+        expect(created).toBe(1);
+    });
+});
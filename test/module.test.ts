@@ -0,0 +1,76 @@
+import { bootstrap, ContainerModule, IContainerModule, IDependencyManager, MissingBindingError } from "../src";
+
+class Db {
+    public disposed = false;
+    public dispose(): void {
+        this.disposed = true;
+    }
+}
+
+class Repo {
+    public constructor(public db: Db) {}
+}
+
+class Plugin {}
+
+function modules(): [IContainerModule, IContainerModule] {
+    const db = new ContainerModule((bind) => {
+        bind("app::Db").toClass(Db);
+    }, {name: "db"});
+    const repo = new ContainerModule((bind) => {
+        bind("app::Repo").toClass(Repo).withArguments(["app::Db"]);
+        bind("app::Plugin").toClass(Plugin).tag("app::Plugins");
+    }, {name: "repo", dependencies: [db]});
+    return [db, repo];
+}
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind("app::Core").toClass(Plugin).tag("app::Plugins");
+    return dm;
+}
+
+describe("container modules", () => {
+    it("loads module dependencies first", async () => {
+        const dm = setup();
+        const [, repo] = modules();
+        await dm.load(repo);
+        expect((await dm.get<Repo>("app::Repo")).db).toBeInstanceOf(Db);
+        expect(await dm.get<Plugin[]>("app::Plugins")).toHaveLength(2);
+    });
+
+    it("runs the load hook with the manager", async () => {
+        const dm = setup();
+        const load = jest.fn();
+        await dm.load(new ContainerModule(() => undefined, {load}));
+        expect(load).toHaveBeenCalledWith(dm);
+    });
+
+    it("refuses to unload a module other modules depend on", async () => {
+        const dm = setup();
+        const [db, repo] = modules();
+        await dm.load(repo);
+        await expect(dm.unload(db)).rejects.toThrow("Module \"db\" is required by \"repo\"");
+    });
+
+    it("removes exactly the bindings and tags the module added", async () => {
+        const dm = setup();
+        const [, repo] = modules();
+        await dm.load(repo);
+        await dm.unload(repo);
+        await expect(dm.get("app::Repo")).rejects.toBeInstanceOf(MissingBindingError);
+        expect(await dm.create<Plugin[]>("app::Plugins")).toHaveLength(1);
+    });
+
+    it("disposes module instances and restores replaced bindings", async () => {
+        const dm = setup();
+        dm.bind("app::Db").toValue("base");
+        const [db] = modules();
+        await dm.load(db);
+        const instance = await dm.get<Db>("app::Db");
+        await dm.unload(db);
+        await new Promise(setImmediate);
+        expect(instance.disposed).toBe(true);
+        expect(await dm.get("app::Db")).toBe("base");
+    });
+});
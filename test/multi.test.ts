@@ -0,0 +1,96 @@
+import { Typing } from "@saggitarius/typing";
+import { bootstrap, ContainerModule, Definition, IDependencyManager } from "../src";
+
+class Foo {}
+class Bar {}
+
+class Consumer {
+    public constructor(public plugins: unknown) {}
+}
+
+const plugins = Typing.type<unknown[]>("app::Plugins");
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bindMulti(plugins)
+        .add(Foo, {priority: 1, name: "foo"})
+        .add(Bar, {priority: 5})
+        .addValue("value", {name: "val"})
+        .addFactory((x) => ({x}), [Definition.makeValue(7)], {priority: 3, name: "fac"});
+    return dm;
+}
+
+function nameOf(item: unknown): string {
+    return typeof(item) === "object" ? item.constructor.name : String(item);
+}
+
+describe("multi-bindings", () => {
+    it("orders members by priority and de-duplicates re-added ones", async () => {
+        const dm = setup();
+        dm.bindMulti(plugins).add(Foo, {priority: 10, name: "foo"});
+        const items = await dm.get<unknown[]>(plugins);
+        expect(items.map(nameOf)).toEqual(["Foo", "Bar", "Object", "value"]);
+        expect(items[2]).toEqual({x: 7});
+    });
+
+    it("injects members as a record keyed by name", async () => {
+        const dm = setup();
+        dm.bind("app::R").toClass(Consumer)
+            .withArguments([Definition.makeCollection(plugins, Definition.CollectionFormat.Record)]);
+        const record = (await dm.get<Consumer>("app::R")).plugins as Record<string, unknown>;
+        expect(record.foo).toBeInstanceOf(Foo);
+        expect(record.val).toBe("value");
+        expect(record.fac).toEqual({x: 7});
+    });
+
+    it("injects members as a lazy iterator", async () => {
+        const dm = setup();
+        dm.bind("app::I").toClass(Consumer)
+            .withArguments([Definition.makeCollection(plugins, Definition.CollectionFormat.Iterator)]);
+        const iterator = (await dm.get<Consumer>("app::I")).plugins as AsyncIterable<unknown>;
+        const items = [];
+        for await (const item of iterator) {
+            items.push(nameOf(item));
+        }
+        expect(items).toEqual(["Bar", "Object", "Foo", "value"]);
+    });
+
+    it("removes members by name or dependency", async () => {
+        const dm = setup();
+        dm.bindMulti(plugins).remove("val").remove(Bar);
+        expect((await dm.get<unknown[]>(plugins)).map(nameOf)).toEqual(["Object", "Foo"]);
+    });
+
+    it("orders tagged class bindings by priority", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Bar").toClass(Bar).tag("app::Tagged", {priority: 2});
+        dm.bind("app::Foo").toClass(Foo).tag("app::Tagged");
+        expect((await dm.get<unknown[]>("app::Tagged")).map(nameOf)).toEqual(["Bar", "Foo"]);
+    });
+
+    it("injects an empty collection for unbound types", async () => {
+        const dm = bootstrap();
+        dm.bind("app::E").toClass(Consumer).withArguments([Definition.makeCollection(Typing.type("app::None"))]);
+        expect((await dm.get<Consumer>("app::E")).plugins).toEqual([]);
+    });
+
+    it("removes members added by an unloaded module", async () => {
+        const dm = setup();
+        const module = new ContainerModule(() => undefined, {
+            load: (manager) => {
+                manager.bindMulti(plugins).addValue("module");
+            },
+        });
+        await dm.load(module);
+        expect(await dm.createChild().get(plugins)).toHaveLength(5);
+        await dm.unload(module);
+        expect(await dm.createChild().get(plugins)).toHaveLength(4);
+    });
+
+    it("extends array bindings", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Arr").toArray([Definition.makeValue(1)]);
+        dm.bindMulti("app::Arr").addValue(2, {priority: 1});
+        expect(await dm.get("app::Arr")).toEqual([2, 1]);
+    });
+});
@@ -0,0 +1,54 @@
+import { Typing } from "@saggitarius/typing";
+import { bootstrap, Definition, IDependencyManager, MissingBindingError } from "../src";
+
+class Console {}
+
+class Audit {
+    public constructor(public level?: number) {}
+}
+
+class Svc {
+    public constructor(public audit: Audit, public logger: Console) {}
+}
+
+const logger = Typing.type("app::ILogger");
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind(logger).toClass(Console);
+    dm.bind(logger).named("audit").toClass(Audit).withArguments([Definition.makeParameter("level", {optional: true})]);
+    dm.bind("app::Svc").toClass(Svc).withArguments([Definition.makeNamed(logger, "audit"), logger]);
+    return dm;
+}
+
+describe("named bindings", () => {
+    it("injects named and default bindings of one type", async () => {
+        const svc = await setup().get<Svc>("app::Svc");
+        expect(svc.audit).toBeInstanceOf(Audit);
+        expect(svc.logger).toBeInstanceOf(Console);
+    });
+
+    it("accepts the name in get() and create()", async () => {
+        const dm = setup();
+        const svc = await dm.get<Svc>("app::Svc");
+        expect(await dm.get(logger, "audit")).toBe(svc.audit);
+        expect(await dm.get(logger)).toBe(svc.logger);
+        expect((await dm.create<Audit>(logger, "audit", {level: 1})).level).toBe(1);
+        expect(await dm.create(logger, {level: 2})).toBeInstanceOf(Console);
+    });
+
+    it("resolves names through aliases", async () => {
+        const dm = setup();
+        dm.bind("app::Alias").toType(logger);
+        expect(await dm.get("app::Alias", "audit")).toBeInstanceOf(Audit);
+    });
+
+    it("reports missing names", async () => {
+        const dm = setup();
+        await expect(dm.get(logger, "nope")).rejects.toBeInstanceOf(MissingBindingError);
+        await expect(dm.get(logger, "nope")).rejects.toThrow(
+            "Missing binding named \"nope\" (Reference<app::ILogger name=\"nope\">)",
+        );
+        await expect(dm.get("app::Plain", "x")).rejects.toBeInstanceOf(MissingBindingError);
+    });
+});
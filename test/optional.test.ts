@@ -0,0 +1,52 @@
+import { Typing } from "@saggitarius/typing";
+import { bootstrap, Definition } from "../src";
+
+class Feature {}
+
+class Plugin {
+    public constructor(public feature?: Feature, public limit?: number, public other?: Feature) {}
+}
+
+class Logs {
+    public constructor(public console: string, public file: string) {}
+}
+
+describe("optional dependencies", () => {
+    it("injects undefined or the default for missing bindings", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Plugin").toClass(Plugin)
+            .withOptionalArgument(0, "app::Feature")
+            .withOptionalArgument(1, "app::Limit", 42)
+            .withArgument(2, Definition.makeOptional("app::Other"));
+        const plugin = await dm.get<Plugin>("app::Plugin");
+        expect(plugin.feature).toBeUndefined();
+        expect(plugin.limit).toBe(42);
+        expect(plugin.other).toBeUndefined();
+    });
+
+    it("injects bound dependencies", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Feature").toClass(Feature);
+        dm.bind("app::Limit").toValue(7);
+        dm.bind("app::Plugin").toClass(Plugin)
+            .withOptionalArgument(0, "app::Feature")
+            .withOptionalArgument(1, "app::Limit", 42);
+        const plugin = await dm.get<Plugin>("app::Plugin");
+        expect(plugin.feature).toBeInstanceOf(Feature);
+        expect(plugin.limit).toBe(7);
+    });
+
+    it("falls back to the default when a named binding is missing", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Log").named("file").toValue("file-log");
+        const log = Typing.type<string>("app::Log");
+        dm.bind("app::Logs").toClass(Logs).withArguments([
+            Definition.makeOptional(Definition.makeNamed(log, "console"), "fallback"),
+            Definition.makeOptional(Definition.makeNamed(log, "file"), "fallback"),
+        ]);
+        const logs = await dm.get<Logs>("app::Logs");
+        expect([logs.console, logs.file]).toEqual(["fallback", "file-log"]);
+        const sync = dm.createSync<Logs>("app::Logs");
+        expect([sync.console, sync.file]).toEqual(["fallback", "file-log"]);
+    });
+});
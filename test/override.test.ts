@@ -0,0 +1,94 @@
+import { bootstrap, ContainerModule, IDependencyManager } from "../src";
+
+class Service {
+    public disposed = false;
+    public hi(): string {
+        return "real";
+    }
+    public dispose(): void {
+        this.disposed = true;
+    }
+}
+
+class Other extends Service {
+    public hi(): string {
+        return "other";
+    }
+}
+
+class User {
+    public constructor(public service: Service) {}
+}
+
+const flush = (): Promise<void> => new Promise(setImmediate);
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind("app::Service").toClass(Service);
+    dm.bind("app::Alias").toType("app::Service");
+    dm.bind("app::User").toClass(User).withArguments(["app::Service"]).inTransientScope();
+    return dm;
+}
+
+describe("override and snapshots", () => {
+    it("takes rebinds into account after resolution", async () => {
+        const dm = setup();
+        const real = await dm.get<Service>("app::Service");
+        expect(await dm.get("app::Alias")).toBe(real);
+        dm.bind("app::Service").toClass(Other);
+        expect((await dm.get<Service>("app::Service")).hi()).toBe("other");
+        expect((await dm.get<Service>("app::Alias")).hi()).toBe("other");
+        await flush();
+        expect(real.disposed).toBe(true);
+    });
+
+    it("overrides a binding and restores the snapshot", async () => {
+        const dm = setup();
+        const real = await dm.get<Service>("app::Service");
+        const snapshot = dm.snapshot();
+        dm.override("app::Service").toValue({hi: () => "mock"});
+        expect((await dm.get<Service>("app::Service")).hi()).toBe("mock");
+        expect((await dm.get<Service>("app::Alias")).hi()).toBe("mock");
+        expect((await dm.get<User>("app::User")).service.hi()).toBe("mock");
+        dm.restore(snapshot);
+        await flush();
+        expect(await dm.get("app::Service")).toBe(real);
+        expect(await dm.get("app::Alias")).toBe(real);
+        expect(real.disposed).toBe(false);
+    });
+
+    it("disposes instances created after the snapshot on restore", async () => {
+        const dm = setup();
+        const snapshot = dm.snapshot();
+        dm.bind("app::Extra").toClass(Service);
+        const extra = await dm.get<Service>("app::Extra");
+        dm.restore(snapshot);
+        await flush();
+        expect(extra.disposed).toBe(true);
+    });
+
+    it("keeps parent instances when a child overrides", async () => {
+        const dm = setup();
+        const real = await dm.get<Service>("app::Service");
+        const child = dm.createChild();
+        child.override("app::Service").toClass(Other);
+        const first = await child.get<Service>("app::Service");
+        child.override("app::Service").toClass(Other);
+        await flush();
+        expect(first.disposed).toBe(true);
+        expect(real.disposed).toBe(false);
+        expect(await dm.get("app::Service")).toBe(real);
+    });
+
+    it("allows reloading modules after restore", async () => {
+        const dm = setup();
+        const snapshot = dm.snapshot();
+        const module = new ContainerModule((bind) => {
+            bind("app::Module").toValue(1);
+        });
+        await dm.load(module);
+        dm.restore(snapshot);
+        await dm.load(module);
+        expect(await dm.get("app::Module")).toBe(1);
+    });
+});
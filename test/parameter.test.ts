@@ -0,0 +1,55 @@
+import { bootstrap, Definition, IDependencyManager } from "../src";
+
+class Svc {}
+
+class Job {
+    public constructor(public svc: Svc, public userId: number, public limit: number) {}
+}
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind("app::Svc").toClass(Svc);
+    dm.bind("app::Job").toClass(Job).withArguments([
+        "app::Svc",
+        Definition.makeParameter("userId"),
+        Definition.makeParameter("limit", {default: 10}),
+    ]);
+    return dm;
+}
+
+describe("parameters", () => {
+    it("injects create() parameters next to services", async () => {
+        const job = await setup().create<Job>("app::Job", {userId: 7, limit: 1});
+        expect(job.svc).toBeInstanceOf(Svc);
+        expect(job.userId).toBe(7);
+        expect(job.limit).toBe(1);
+    });
+
+    it("falls back to parameter defaults", async () => {
+        const job = await setup().create<Job>("app::Job", {userId: 7});
+        expect(job.limit).toBe(10);
+    });
+
+    it("reports missing parameters with the dependency path", async () => {
+        await expect(setup().create("app::Job", {})).rejects.toThrow(
+            "Missing parameter \"userId\" (app::Job -> Array<app::Svc, Parameter<userId>, Parameter<limit>> -> Parameter<userId>)",
+        );
+    });
+
+    it("passes parameters to transient dependencies but not to singletons", async () => {
+        class Conn {
+            public constructor(public url: string) {}
+        }
+        class Req {
+            public constructor(public url: string, public conn: Conn) {}
+        }
+        const dm = bootstrap();
+        dm.bind("app::Conn").toClass(Conn).withArguments([Definition.makeParameter("url", {default: "default"})]);
+        dm.bind("app::Req").toClass(Req).inTransientScope().withArguments([Definition.makeParameter("url"), "app::Conn"]);
+        const a = await dm.create<Req>("app::Req", {url: "a"});
+        const b = await dm.create<Req>("app::Req", {url: "b"});
+        expect([a.url, b.url]).toEqual(["a", "b"]);
+        expect(a.conn.url).toBe("default");
+        expect(b.conn).toBe(a.conn);
+    });
+});
@@ -0,0 +1,45 @@
+import { bootstrap, Definition, IDependencyManager } from "../src";
+
+class Worker {
+    public constructor(public id?: string) {}
+}
+
+class Svc {
+    public constructor(
+        public provider: () => Promise<Worker>,
+        public factory: (params?: Record<string, unknown>) => Promise<Worker>,
+    ) {}
+}
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind("app::Worker").toClass(Worker).inTransientScope()
+        .withArguments([Definition.makeParameter("id", {optional: true})]);
+    dm.bind("app::Svc").toClass(Svc)
+        .withArguments([Definition.makeProvider("app::Worker"), Definition.makeFactory("app::Worker")]);
+    return dm;
+}
+
+describe("providers and factories", () => {
+    it("resolves the target on each provider call", async () => {
+        const svc = await setup().get<Svc>("app::Svc");
+        const first = await svc.provider();
+        expect(first).toBeInstanceOf(Worker);
+        expect(await svc.provider()).not.toBe(first);
+    });
+
+    it("passes factory parameters to the created instance", async () => {
+        const svc = await setup().get<Svc>("app::Svc");
+        expect((await svc.factory({id: "x"})).id).toBe("x");
+    });
+
+    it("creates singletons anew through a factory", async () => {
+        const dm = setup();
+        dm.bind("app::Shared").toClass(Worker);
+        dm.bind("app::Svc").toClass(Svc)
+            .withArguments([Definition.makeProvider("app::Shared"), Definition.makeFactory("app::Shared")]);
+        const svc = await dm.get<Svc>("app::Svc");
+        expect(await svc.provider()).toBe(await dm.get("app::Shared"));
+        expect(await svc.factory()).not.toBe(await dm.get("app::Shared"));
+    });
+});
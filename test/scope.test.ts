@@ -0,0 +1,43 @@
+import { bootstrap, IDependencyManager } from "../src";
+
+class Foo {}
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind("app::Singleton").toClass(Foo);
+    dm.bind("app::Transient").toClass(Foo).inTransientScope();
+    dm.bind("app::Request").toClass(Foo).inScope("request");
+    return dm;
+}
+
+describe("scopes", () => {
+    it("shares singletons", async () => {
+        const dm = setup();
+        expect(await dm.get("app::Singleton")).toBe(await dm.get("app::Singleton"));
+    });
+
+    it("creates a new transient on every resolution", async () => {
+        const dm = setup();
+        expect(await dm.get("app::Transient")).not.toBe(await dm.get("app::Transient"));
+    });
+
+    it("creates a new instance with create()", async () => {
+        const dm = setup();
+        expect(await dm.create("app::Singleton")).not.toBe(await dm.get("app::Singleton"));
+    });
+
+    it("rejects scoped bindings while the scope is closed", async () => {
+        const dm = setup();
+        await expect(dm.get("app::Request")).rejects.toThrow("Scope \"request\" is not open");
+    });
+
+    it("keeps scoped instances for the lifetime of the scope", async () => {
+        const dm = setup();
+        dm.openScope("request");
+        const first = await dm.get("app::Request");
+        expect(await dm.get("app::Request")).toBe(first);
+        await dm.closeScope("request");
+        dm.openScope("request");
+        expect(await dm.get("app::Request")).not.toBe(first);
+    });
+});
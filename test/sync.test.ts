@@ -0,0 +1,89 @@
+import { Typing } from "@saggitarius/typing";
+import { AsyncResolutionError, bootstrap, Definition, IDependencyManager } from "../src";
+
+class Config {
+    public n = 1;
+}
+
+class Svc {
+    public constructor(public config: Config, public p?: number) {}
+}
+
+function setup(): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind("app::Config").toClass(Config);
+    dm.bind("app::Svc").toClass(Svc)
+        .withArguments(["app::Config", Definition.makeParameter("p", {optional: true})]);
+    return dm;
+}
+
+describe("synchronous resolution", () => {
+    it("resolves synchronous graphs and shares instances with async resolution", async () => {
+        const dm = setup();
+        const svc = dm.getSync<Svc>("app::Svc");
+        expect(svc.config).toBe(dm.getSync("app::Config"));
+        expect(await dm.get("app::Svc")).toBe(svc);
+        expect(dm.createSync<Svc>("app::Svc", {p: 5}).p).toBe(5);
+    });
+
+    it("names the first asynchronous factory", () => {
+        const dm = setup();
+        dm.bind("app::Async").toFactory(async () => 1);
+        dm.bind("app::Pending").toFactory(() => Promise.resolve(1));
+        expect(() => dm.getSync("app::Async")).toThrow(AsyncResolutionError);
+        expect(() => dm.getSync("app::Async")).toThrow(
+            "Asynchronous factory, use asynchronous resolution instead (app::Async)",
+        );
+        expect(() => dm.getSync("app::Pending")).toThrow(
+            "Asynchronous factory, use asynchronous resolution instead (app::Pending)",
+        );
+    });
+
+    it("names the dependency holding a promise value", async () => {
+        const dm = setup();
+        dm.bind("app::Value").toValue(Promise.resolve(3));
+        dm.bind("app::Svc").toClass(Svc).withArguments(["app::Config", "app::Value"]);
+        expect(() => dm.getSync("app::Svc")).toThrow(
+            "Promise value, use asynchronous resolution instead (app::Svc -> Array<app::Config, app::Value> -> app::Value)",
+        );
+        expect((await dm.get<Svc>("app::Svc")).p).toBe(3);
+    });
+
+    it("rejects instances still being created asynchronously", async () => {
+        const dm = setup();
+        dm.bind("app::Late").toFactory(async () => "late");
+        const pending = dm.get("app::Late");
+        expect(() => dm.getSync("app::Late")).toThrow(AsyncResolutionError);
+        await pending;
+        expect(dm.getSync("app::Late")).toBe("late");
+    });
+
+    it("supports names, multi-bindings, collections and decorators", () => {
+        const dm = setup();
+        dm.bind("app::Name").toValue("a");
+        dm.bind("app::Name").named("x").toValue("xx");
+        dm.bindMulti("app::Many").addValue(1).addFactory(() => 2, [], {priority: 1});
+        dm.bind("app::Record").toClass(Svc)
+            .withArguments([Definition.makeCollection(Typing.type("app::Many"), Definition.CollectionFormat.Record)]);
+        dm.bind("app::Value").toValue(10);
+        dm.decorate<number>("app::Value", (value) => value * 2);
+        expect([dm.getSync("app::Name"), dm.getSync("app::Name", "x")]).toEqual(["a", "xx"]);
+        expect(dm.getSync("app::Many")).toEqual([2, 1]);
+        expect(dm.getSync<Svc>("app::Record").config).toEqual({0: 2, 1: 1});
+        expect(dm.getSync("app::Value")).toBe(20);
+    });
+
+    it("tears down results of asynchronous activators it rejects", async () => {
+        const dispose = jest.fn();
+        class Slow {
+            public dispose(): void {
+                dispose();
+            }
+        }
+        const dm = bootstrap();
+        dm.bind("app::Slow").toClass(Slow).inTransientScope().onActivation(async () => undefined);
+        expect(() => dm.createSync("app::Slow")).toThrow(AsyncResolutionError);
+        await new Promise(setImmediate);
+        expect(dispose).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,51 @@
+import { bootstrap, Definition, IDependencyManager } from "../src";
+
+class Shared {}
+
+class Leaf {
+    public constructor(public shared: Shared, public id: number) {}
+}
+
+class Root {
+    public constructor(public leaves: Leaf[]) {}
+}
+
+function setup(width: number): IDependencyManager {
+    const dm = bootstrap();
+    dm.bind("app::Shared").toClass(Shared);
+    const leaves = [];
+    for (let index = 0; index < width; ++index) {
+        dm.bind(`app::Leaf${index}`).toClass(Leaf).inTransientScope()
+            .withArguments(["app::Shared", Definition.makeParameter("id", {default: index})]);
+        leaves.push(`app::Leaf${index}`);
+    }
+    dm.bind("app::Root").toClass(Root).inTransientScope().withArguments([Definition.makeArray(leaves)]);
+    return dm;
+}
+
+describe("repeated transient resolution", () => {
+    it("builds a fresh graph on every create() and shares singletons", async () => {
+        const dm = setup(50);
+        const first = await dm.create<Root>("app::Root");
+        const second = await dm.create<Root>("app::Root");
+        expect(first.leaves).toHaveLength(50);
+        expect(second.leaves[0]).not.toBe(first.leaves[0]);
+        expect(second.leaves.every((leaf) => leaf.shared === first.leaves[0].shared)).toBe(true);
+        expect(second.leaves.map((leaf) => leaf.id)).toEqual(first.leaves.map((_, index) => index));
+    });
+
+    it("does not carry parameters between calls", async () => {
+        const dm = setup(3);
+        expect((await dm.create<Root>("app::Root", {id: 7})).leaves.map((leaf) => leaf.id)).toEqual([7, 7, 7]);
+        expect((await dm.create<Root>("app::Root")).leaves.map((leaf) => leaf.id)).toEqual([0, 1, 2]);
+    });
+
+    it("picks up bindings changed between calls", async () => {
+        const dm = setup(3);
+        await dm.create("app::Root");
+        const shared = new Shared();
+        dm.bind("app::Shared").toValue(shared);
+        expect((await dm.create<Root>("app::Root")).leaves[2].shared).toBe(shared);
+        expect(dm.createSync<Root>("app::Root").leaves[1].shared).toBe(shared);
+    });
+});
@@ -0,0 +1,79 @@
+import { Typing } from "@saggitarius/typing";
+import { bootstrap, Definition, IDependencyManager, lazy, ValidationIssueKind } from "../src";
+
+class Node {
+    public constructor(...deps: unknown[]) {
+        Object.assign(this, deps);
+    }
+}
+
+async function issuesOf(dm: IDependencyManager): Promise<Array<[ValidationIssueKind, string]>> {
+    const report = await dm.validate();
+    return report.issues.map((issue) => [issue.kind, issue.message]);
+}
+
+describe("validation", () => {
+    it("accepts the bootstrap wiring", async () => {
+        const report = await bootstrap().validate();
+        expect(report.valid).toBe(true);
+        expect(report.issues).toEqual([]);
+    });
+
+    it("reports missing bindings, missing factories and cycles without instantiating", async () => {
+        const created = jest.fn();
+        class Spy {
+            public d?: unknown;
+            public constructor() {
+                created();
+            }
+        }
+        const dm = bootstrap();
+        dm.bind("app::A").toClass(Spy).withArguments(["app::B"]);
+        dm.bind("app::B").toClass(Spy).withArguments(["app::A"]);
+        dm.bind("app::C").toClass(Spy).withArguments(["app::X", Definition.makeOptional("app::Y"), lazy("app::Z")])
+            .withProperty("d", "app::D");
+        dm.bind("app::D").toDefinition(Definition.makeType(Typing.type("app::D")));
+        expect(await issuesOf(dm)).toEqual([
+            [ValidationIssueKind.CyclicDependency, "Cyclic dependency (app::A -> app::B -> app::A)"],
+            [ValidationIssueKind.MissingBinding, "Missing binding (app::C -> app::X)"],
+            [ValidationIssueKind.MissingBinding, "Missing binding (app::Z)"],
+            [ValidationIssueKind.MissingFactory, "Factory is not defined (app::C -> app::D)"],
+        ]);
+        expect(created).not.toHaveBeenCalled();
+    });
+
+    it("checks named references", async () => {
+        const log = Typing.type<string>("app::Log");
+        const dm = bootstrap();
+        dm.bind(log).named("file").toValue("file");
+        dm.bind("app::Ok").toClass(Node).withArguments([Definition.makeNamed(log, "file")]);
+        dm.bind("app::Opt").toClass(Node).withArguments([Definition.makeOptional(Definition.makeNamed(log, "x"))]);
+        dm.bind("app::Bad").toClass(Node).withArguments([Definition.makeNamed(log, "console")]);
+        expect(await issuesOf(dm)).toEqual([
+            [ValidationIssueKind.MissingBinding, "Missing binding (app::Bad -> Reference<app::Log name=\"console\">)"],
+        ]);
+    });
+
+    it("reports collections over non-multi bindings", async () => {
+        const dm = bootstrap();
+        dm.bind("app::Single").toClass(Node);
+        dm.bindMulti("app::Many").addValue(1);
+        dm.bind("app::A").toClass(Node).withArguments([
+            Definition.makeCollection(Typing.type("app::Single")),
+            Definition.makeCollection(Typing.type("app::Many")),
+        ]);
+        expect(await issuesOf(dm)).toEqual([
+            [ValidationIssueKind.NotMultiBinding, "Not a multi-binding (app::A -> Collection<app::Single, array>)"],
+        ]);
+    });
+
+    it("checks binding and container interceptors", async () => {
+        const dm = bootstrap();
+        dm.bind("app::A").toClass(Node).intercept("app::Local");
+        dm.intercept("app::Global", (def) => def.type === Typing.type("app::A"));
+        expect(await issuesOf(dm)).toEqual([
+            [ValidationIssueKind.MissingBinding, "Missing binding (app::A -> app::Global)"],
+            [ValidationIssueKind.MissingBinding, "Missing binding (app::A -> app::Local)"],
+        ]);
+    });
+});